@@ -0,0 +1,219 @@
+// FILE: scripts/mock-roblox.mjs
+// Mock Roblox - Local stand-in for the Roblox web APIs, seeded from mock-roblox-seed.json
+//
+// Usage:
+//   npm run mock:roblox
+//   ROBLOX_API_BASE_URL=http://localhost:4010/{service} npm run dev
+//
+// Environment:
+//   MOCK_ROBLOX_PORT            port to listen on (default 4010)
+//   MOCK_ROBLOX_SEED            seed file (default scripts/mock-roblox-seed.json)
+//   MOCK_ROBLOX_THROTTLE_EVERY  answer every Nth request with 429 + Retry-After: 1
+
+import { createServer } from 'http';
+import { readFileSync } from 'fs';
+import { deflateSync } from 'zlib';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const PORT = Number(process.env.MOCK_ROBLOX_PORT) || 4010;
+const SEED_FILE = process.env.MOCK_ROBLOX_SEED || join(dirname(fileURLToPath(import.meta.url)), 'mock-roblox-seed.json');
+const THROTTLE_EVERY = Number(process.env.MOCK_ROBLOX_THROTTLE_EVERY) || 0;
+
+const seed = JSON.parse(readFileSync(SEED_FILE, 'utf8'));
+const usersById = new Map(seed.users.map(u => [String(u.id), u]));
+const groupsById = new Map(seed.groups.map(g => [g.id, g]));
+
+let requestCount = 0;
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Roblox's error envelope
+function notFound(res, message = 'The user id is invalid.') {
+  send(res, 404, { errors: [{ code: 3, message, userFacingMessage: 'Something went wrong' }] });
+}
+
+function summary(user) {
+  return { hasVerifiedBadge: user.hasVerifiedBadge, id: user.id, name: user.name, displayName: user.displayName };
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type, data) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([Buffer.from(type), data])));
+  return Buffer.concat([length, Buffer.from(type), data, crc]);
+}
+
+/**
+ * A flat-colour 48x48 PNG, coloured by user ID so avatars are distinguishable
+ */
+function avatarPng(userId) {
+  const size = 48;
+  const n = Number(userId);
+  const rgb = [(n * 67) % 256, (n * 131) % 256, (n * 199) % 256];
+  const row = Buffer.concat([Buffer.from([0]), Buffer.alloc(size * 3).map((_, i) => rgb[i % 3])]);
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(Buffer.concat(Array(size).fill(row)))),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+async function route(req, res, url) {
+  const path = url.pathname;
+  let match;
+
+  // users
+  if (req.method === 'POST' && path === '/users/v1/usernames/users') {
+    const { usernames = [], excludeBannedUsers = false } = await readBody(req);
+    const data = [];
+    usernames.forEach(requested => {
+      const wanted = String(requested).toLowerCase();
+      // Like Roblox, past usernames resolve to the account's current name
+      const user = seed.users.find(u =>
+        u.name.toLowerCase() === wanted || u.pastUsernames.some(p => p.toLowerCase() === wanted)
+      );
+      if (user && !(excludeBannedUsers && user.isBanned)) {
+        data.push({ requestedUsername: requested, ...summary(user) });
+      }
+    });
+    return send(res, 200, { data });
+  }
+
+  if (req.method === 'POST' && path === '/users/v1/users') {
+    const { userIds = [], excludeBannedUsers = false } = await readBody(req);
+    const data = userIds
+      .map(id => usersById.get(String(id)))
+      .filter(u => u && !(excludeBannedUsers && u.isBanned))
+      .map(summary);
+    return send(res, 200, { data });
+  }
+
+  if (req.method === 'GET' && path === '/users/v1/users/search') {
+    const keyword = (url.searchParams.get('keyword') || '').toLowerCase();
+    const limit = Number(url.searchParams.get('limit')) || 10;
+    if (keyword.length < 3) {
+      return send(res, 400, { errors: [{ code: 6, message: 'The keyword is too short.' }] });
+    }
+    const data = seed.users
+      .filter(u => !u.isBanned)
+      .filter(u => u.name.toLowerCase().includes(keyword) || u.displayName.toLowerCase().includes(keyword))
+      .slice(0, limit)
+      .map(u => ({ previousUsernames: u.pastUsernames, ...summary(u) }));
+    return send(res, 200, { previousPageCursor: null, nextPageCursor: null, data });
+  }
+
+  if (req.method === 'GET' && (match = path.match(/^\/users\/v1\/users\/(\d+)\/username-history$/))) {
+    const user = usersById.get(match[1]);
+    if (!user) return notFound(res);
+    return send(res, 200, {
+      previousPageCursor: null,
+      nextPageCursor: null,
+      data: user.pastUsernames.map(name => ({ name })),
+    });
+  }
+
+  if (req.method === 'GET' && (match = path.match(/^\/users\/v1\/users\/(\d+)$/))) {
+    const user = usersById.get(match[1]);
+    if (!user) return notFound(res);
+    return send(res, 200, {
+      description: user.description,
+      created: user.created,
+      isBanned: user.isBanned,
+      externalAppDisplayName: null,
+      ...summary(user),
+    });
+  }
+
+  // groups
+  if (req.method === 'GET' && (match = path.match(/^\/groups\/v2\/users\/(\d+)\/groups\/roles$/))) {
+    const user = usersById.get(match[1]);
+    if (!user) return notFound(res);
+    const data = user.groups.map((membership, idx) => ({
+      group: groupsById.get(membership.groupId),
+      role: { id: membership.groupId * 100 + idx, name: membership.role, rank: membership.rank },
+    }));
+    return send(res, 200, { data });
+  }
+
+  // friends
+  if (req.method === 'GET' && (match = path.match(/^\/friends\/v1\/users\/(\d+)\/friends\/count$/))) {
+    const user = usersById.get(match[1]);
+    if (!user) return notFound(res);
+    return send(res, 200, { count: user.friends });
+  }
+
+  // thumbnails
+  if (req.method === 'GET' && path === '/thumbnails/v1/users/avatar-headshot') {
+    const ids = (url.searchParams.get('userIds') || '').split(',').filter(Boolean);
+    const data = ids.map(id => {
+      const user = usersById.get(id);
+      if (!user) return { targetId: Number(id), state: 'Error', imageUrl: null };
+      if (user.isBanned) return { targetId: user.id, state: 'Blocked', imageUrl: null };
+      return { targetId: user.id, state: 'Completed', imageUrl: `${url.origin}/cdn/avatar/${user.id}.png` };
+    });
+    return send(res, 200, { data });
+  }
+
+  if (req.method === 'GET' && (match = path.match(/^\/cdn\/avatar\/(\d+)\.png$/))) {
+    res.writeHead(200, { 'Content-Type': 'image/png' });
+    return res.end(avatarPng(match[1]));
+  }
+
+  send(res, 404, { errors: [{ code: 0, message: 'NotFound' }] });
+}
+
+createServer(async (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host || `localhost:${PORT}`}`);
+  requestCount++;
+  if (THROTTLE_EVERY && requestCount % THROTTLE_EVERY === 0) {
+    console.log(`429 ${req.method} ${url.pathname}`);
+    return send(res, 429, { errors: [{ code: 0, message: 'Too many requests' }] }, { 'Retry-After': '1' });
+  }
+
+  try {
+    await route(req, res, url);
+    console.log(`${res.statusCode} ${req.method} ${url.pathname}${url.search}`);
+  } catch (err) {
+    console.error('Mock Roblox error:', err);
+    send(res, 400, { errors: [{ code: 0, message: 'BadRequest' }] });
+  }
+}).listen(PORT, () => {
+  console.log(`Mock Roblox API on http://localhost:${PORT} (${seed.users.length} users, ${seed.groups.length} groups)`);
+  console.log(`Point the app at it with ROBLOX_API_BASE_URL=http://localhost:${PORT}/{service}`);
+});
@@ -0,0 +1,44 @@
+// FILE: src/app/api/alerts/route.ts
+// Watchlists - In-app change alerts
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { acknowledgeAlert, listAlerts } from '@/app/lib/watchlists';
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const unacknowledgedOnly = new URL(request.url).searchParams.get('unacknowledged') === 'true';
+    return NextResponse.json({ alerts: await listAlerts({ unacknowledgedOnly }) });
+  } catch (err) {
+    console.error('Alert list error:', err);
+    return NextResponse.json({ error: 'Failed to fetch alerts' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id }: { id?: string } = await request.json();
+    if (!id) {
+      return NextResponse.json({ error: 'Missing required field: id' }, { status: 400 });
+    }
+
+    const alert = await acknowledgeAlert(id, session.user.email || session.user.name || 'unknown');
+    if (!alert) {
+      return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+    }
+    return NextResponse.json(alert);
+  } catch (err) {
+    console.error('Alert acknowledge error:', err);
+    return NextResponse.json({ error: 'Failed to acknowledge alert' }, { status: 500 });
+  }
+}
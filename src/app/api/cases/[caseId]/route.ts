@@ -0,0 +1,165 @@
+// FILE: src/app/api/cases/[caseId]/route.ts
+// Case Management - Case detail and case actions (close, assign, attach, note, search)
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { readAuditLog } from '@/app/lib/audit';
+import {
+  addNote,
+  assignAnalyst,
+  attachSubject,
+  getCase,
+  recordSearch,
+  setCaseStatus,
+  unassignAnalyst,
+  type Case,
+} from '@/app/lib/cases';
+import { fetchProfile } from '@/app/lib/profile';
+import { describeRobloxError, RobloxApiError } from '@/app/lib/roblox';
+
+type CaseAction =
+  | { action: 'close' }
+  | { action: 'reopen' }
+  | { action: 'assign'; analyst: string }
+  | { action: 'unassign'; analyst: string }
+  | { action: 'attachUser'; userId: string }
+  | { action: 'note'; text: string }
+  | { action: 'search'; input: string; mode: string; resultUserId?: string };
+
+export async function GET(
+  request: Request,
+  { params }: { params: { caseId: string } }
+) {
+  const { caseId } = await params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const found = await getCase(caseId);
+    if (!found) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    // Report details come from the audit ledger (latest entry per report)
+    const linked = new Set(found.reportIds);
+    const reports = new Map<string, unknown>();
+    (await readAuditLog())
+      .filter(entry => linked.has(entry.reportId))
+      .forEach(entry => reports.set(entry.reportId, {
+        reportId: entry.reportId,
+        createdBy: entry.createdBy,
+        createdAt: entry.createdAt,
+        queryInput: entry.queryInput,
+        queryMode: entry.queryMode,
+        resultUserId: entry.resultUserId,
+        snapshotHash: entry.snapshotHash,
+        exportFormat: entry.exportFormat,
+      }));
+
+    return NextResponse.json({ ...found, reports: Array.from(reports.values()).reverse() });
+  } catch (err) {
+    console.error('Case fetch error:', err);
+    return NextResponse.json({ error: 'Failed to fetch case' }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { caseId: string } }
+) {
+  const { caseId } = await params;
+
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const actor = session.user.email || session.user.name || 'unknown';
+
+    const existing = await getCase(caseId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+    }
+
+    const body: CaseAction = await request.json();
+    if (existing.status === 'closed' && body.action !== 'reopen') {
+      return NextResponse.json({ error: 'Case is closed' }, { status: 409 });
+    }
+
+    let updated: Case | null;
+    switch (body.action) {
+      case 'close':
+      case 'reopen': {
+        // Only the assigned analysts (or an admin) decide when a case is done
+        if (session.user.role !== 'admin' && !existing.assignees.includes(actor)) {
+          return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+        }
+        updated = await setCaseStatus(caseId, body.action === 'close' ? 'closed' : 'open', actor);
+        break;
+      }
+      case 'assign':
+      case 'unassign': {
+        const analyst = body.analyst?.trim();
+        if (!analyst) {
+          return NextResponse.json({ error: 'Missing required field: analyst' }, { status: 400 });
+        }
+        updated = body.action === 'assign'
+          ? await assignAnalyst(caseId, analyst)
+          : await unassignAnalyst(caseId, analyst);
+        break;
+      }
+      case 'attachUser': {
+        if (!/^\d+$/.test(body.userId || '')) {
+          return NextResponse.json({ error: 'Invalid userId' }, { status: 400 });
+        }
+        // Only accounts that resolve on Roblox can be attached
+        const result = await fetchProfile(body.userId, 'case');
+        if (!result) {
+          return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+        updated = await attachSubject(caseId, {
+          userId: result.profile.user.userId,
+          username: result.profile.user.username,
+          displayName: result.profile.user.displayName,
+          attachedBy: actor,
+        });
+        break;
+      }
+      case 'note': {
+        const text = body.text?.trim();
+        if (!text) {
+          return NextResponse.json({ error: 'Missing required field: text' }, { status: 400 });
+        }
+        updated = await addNote(caseId, actor, text);
+        break;
+      }
+      case 'search': {
+        if (!body.input || !body.mode) {
+          return NextResponse.json({ error: 'Missing required fields: input, mode' }, { status: 400 });
+        }
+        updated = await recordSearch(caseId, {
+          input: body.input,
+          mode: body.mode,
+          resultUserId: body.resultUserId,
+          searchedBy: actor,
+        });
+        break;
+      }
+      default:
+        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+
+    return NextResponse.json(updated);
+  } catch (err) {
+    console.error('Case update error:', err);
+    if (err instanceof RobloxApiError) {
+      const { status, error, headers } = describeRobloxError(err);
+      return NextResponse.json({ error }, { status, headers });
+    }
+    return NextResponse.json({ error: 'Failed to update case' }, { status: 500 });
+  }
+}
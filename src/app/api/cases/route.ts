@@ -0,0 +1,53 @@
+// FILE: src/app/api/cases/route.ts
+// Case Management - List and open cases
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { createCase, listCases, type CaseStatus } from '@/app/lib/cases';
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = new URL(request.url).searchParams.get('status');
+    const cases = await listCases(
+      status === 'open' || status === 'closed' ? (status as CaseStatus) : undefined
+    );
+    return NextResponse.json({ cases });
+  } catch (err) {
+    console.error('Case list error:', err);
+    return NextResponse.json({ error: 'Failed to fetch cases' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: { title?: string; description?: string; assignees?: string[] } = await request.json();
+    const title = body.title?.trim();
+    if (!title) {
+      return NextResponse.json({ error: 'Missing required field: title' }, { status: 400 });
+    }
+
+    const created = await createCase({
+      title,
+      description: body.description?.trim(),
+      createdBy: session.user.email || session.user.name || 'unknown',
+      assignees: Array.isArray(body.assignees)
+        ? body.assignees.map(a => String(a).trim()).filter(Boolean)
+        : [],
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (err) {
+    console.error('Case creation error:', err);
+    return NextResponse.json({ error: 'Failed to create case' }, { status: 500 });
+  }
+}
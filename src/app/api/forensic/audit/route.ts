@@ -0,0 +1,42 @@
+// FILE: src/app/api/forensic/audit/route.ts
+// Forensic Mode - Audit log query API (role: admin only)
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { queryAuditLogs } from '@/app/lib/audit';
+
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1', 10) || 1;
+    const pageSize = Math.min(parseInt(searchParams.get('pageSize') || '20', 10) || 20, 100);
+
+    const result = await queryAuditLogs(
+      {
+        user: searchParams.get('user') || undefined,
+        caseId: searchParams.get('caseId') || undefined,
+        dateFrom: searchParams.get('dateFrom') || undefined,
+        dateTo: searchParams.get('dateTo') || undefined,
+      },
+      page,
+      pageSize
+    );
+
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('Audit log query error:', err);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit logs' },
+      { status: 500 }
+    );
+  }
+}
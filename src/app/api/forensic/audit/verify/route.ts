@@ -0,0 +1,28 @@
+// FILE: src/app/api/forensic/audit/verify/route.ts
+// Forensic Mode - Audit ledger chain verification API (role: admin only)
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { verifyAuditChain } from '@/app/lib/audit';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const result = await verifyAuditChain();
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('Audit chain verification error:', err);
+    return NextResponse.json(
+      { error: 'Failed to verify audit chain' },
+      { status: 500 }
+    );
+  }
+}
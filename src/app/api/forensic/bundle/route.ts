@@ -0,0 +1,157 @@
+// FILE: src/app/api/forensic/bundle/route.ts
+// Forensic Mode - Evidence bundle (ZIP) export API
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import {
+  addCustodyEvent,
+  createForensicReport,
+  DEFAULT_FIELD_SELECTOR,
+  filterSnapshotFields,
+  type FieldSelector,
+} from '@/app/lib/forensic';
+import { saveAuditLog } from '@/app/lib/audit';
+import { buildEvidenceBundle } from '@/app/lib/bundle';
+import { getCase, linkReport } from '@/app/lib/cases';
+import { queryNamesUser } from '@/app/lib/input';
+import { fetchProfile } from '@/app/lib/profile';
+import {
+  DEFAULT_REDACTION_PROFILE,
+  isMasking,
+  isRedactionProfileId,
+  redactReport,
+  REDACTION_PROFILES,
+  type RedactionProfileId,
+} from '@/app/lib/redaction';
+import { saveReport } from '@/app/lib/reports';
+import { describeRobloxError, RobloxApiError } from '@/app/lib/roblox';
+import { signReport } from '@/app/lib/signing';
+import { timestampReport } from '@/app/lib/timestamp';
+import { fetchAvatarHeadshot } from '@/app/lib/thumbnail';
+
+interface RequestBody {
+  userId: string;
+  query: { input: string; mode: 'userId' | 'username' | 'displayName' };
+  caseId?: string;
+  fieldSelector?: FieldSelector;
+  redactionProfile?: RedactionProfileId;
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { userId, query, caseId, fieldSelector, redactionProfile }: RequestBody = await request.json();
+    if (!userId || !query) {
+      return NextResponse.json(
+        { error: 'Missing required fields: userId, query' },
+        { status: 400 }
+      );
+    }
+    if (!/^\d+$/.test(userId)) {
+      return NextResponse.json({ error: 'Invalid userId' }, { status: 400 });
+    }
+    if (!queryNamesUser(query, userId)) {
+      return NextResponse.json({ error: 'Query does not match the captured user' }, { status: 400 });
+    }
+    if (caseId) {
+      const linkedCase = await getCase(caseId);
+      if (!linkedCase) {
+        return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+      }
+      if (linkedCase.status === 'closed') {
+        return NextResponse.json({ error: 'Case is closed' }, { status: 409 });
+      }
+    }
+    const profileId = redactionProfile || DEFAULT_REDACTION_PROFILE;
+    if (!isRedactionProfileId(profileId)) {
+      return NextResponse.json({ error: 'Unknown redaction profile' }, { status: 400 });
+    }
+    const profile = REDACTION_PROFILES[profileId];
+
+    // Bundles always carry server-captured evidence, live from Roblox
+    const [result, avatar] = await Promise.all([
+      fetchProfile(userId, 'forensic', { bypassCache: true }),
+      fetchAvatarHeadshot(userId, { bypassCache: true }).catch(() => null),
+    ]);
+    if (!result) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const selector = fieldSelector || DEFAULT_FIELD_SELECTOR;
+    let report = await signReport(await timestampReport(
+      await createForensicReport(
+        filterSnapshotFields({ ...result.profile }, selector),
+        query,
+        { email: session.user.email || undefined, name: session.user.name || undefined },
+        caseId,
+        result.provenance,
+        'server'
+      )
+    ));
+
+    // Raw upstream responses would undo any masking, so redacted bundles omit them
+    let exported = report;
+    if (isMasking(profile)) {
+      exported = await signReport(await timestampReport(await redactReport(report, profile)));
+      report = addCustodyEvent(report, `redacted:${profile.id}`, report.meta.createdBy, exported.hash.value);
+      exported = { ...exported, chainOfCustody: report.chainOfCustody };
+    }
+
+    const { zip } = await buildEvidenceBundle(
+      exported,
+      isMasking(profile) ? {} : result.raw,
+      avatar?.ok && !profile.mask.avatar ? avatar.image : null,
+      selector
+    );
+    const exportHash = createHash('sha256').update(zip).digest('hex');
+    report = addCustodyEvent(report, 'exported:bundle', report.meta.createdBy, exportHash);
+    await saveReport(report);
+    if (caseId) {
+      await linkReport(caseId, report.meta.reportId, {
+        userId: result.profile.user.userId,
+        username: result.profile.user.username,
+        displayName: result.profile.user.displayName,
+        attachedBy: report.meta.createdBy,
+      });
+    }
+
+    await saveAuditLog({
+      reportId: report.meta.reportId,
+      createdBy: report.meta.createdBy,
+      queryInput: query.input,
+      queryMode: query.mode,
+      resultUserId: result.profile.user.userId,
+      snapshotHash: report.hash.value,
+      createdAt: report.meta.createdAt,
+      exportedAt: new Date().toISOString(),
+      exportFormat: 'bundle',
+      exportHash,
+      redactionProfile: isMasking(profile) ? profile.id : undefined,
+      caseId,
+    });
+
+    return new NextResponse(Buffer.from(zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="evidence-bundle-${report.meta.reportId}.zip"`,
+        'X-Report-Id': report.meta.reportId,
+        'X-Content-SHA256': exportHash,
+      },
+    });
+  } catch (err) {
+    console.error('Evidence bundle generation error:', err);
+    if (err instanceof RobloxApiError) {
+      const { status, error, headers } = describeRobloxError(err);
+      return NextResponse.json({ error }, { status, headers });
+    }
+    return NextResponse.json(
+      { error: 'Failed to generate evidence bundle' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+// FILE: src/app/api/forensic/bundle/verify/route.ts
+// Forensic Mode - Public evidence bundle verification API
+
+import { NextResponse } from 'next/server';
+import { verifyEvidenceBundle } from '@/app/lib/bundle';
+
+export async function POST(request: Request) {
+  const zip = new Uint8Array(await request.arrayBuffer());
+  if (zip.length === 0) {
+    return NextResponse.json({ error: 'Request body must be a ZIP bundle' }, { status: 400 });
+  }
+
+  try {
+    const result = await verifyEvidenceBundle(zip);
+    return NextResponse.json({ ...result, verifiedAt: new Date().toISOString() });
+  } catch (err) {
+    console.error('Evidence bundle verification error:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to verify evidence bundle' },
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+// FILE: src/app/api/forensic/keys/route.ts
+// Forensic Mode - Signing key listing (public) and rotation (role: admin only)
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { listPublicKeys, rotateSigningKey } from '@/app/lib/signing';
+
+export async function GET() {
+  try {
+    const keys = await listPublicKeys();
+    return NextResponse.json({ keys });
+  } catch (err) {
+    console.error('Signing key listing error:', err);
+    return NextResponse.json({ error: 'Failed to list signing keys' }, { status: 500 });
+  }
+}
+
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (session.user.role !== 'admin') {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const key = await rotateSigningKey();
+    return NextResponse.json({ key });
+  } catch (err) {
+    console.error('Signing key rotation error:', err);
+    return NextResponse.json({ error: 'Failed to rotate signing key' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { REPORT_CSP, verifyReportIntegrity, type ForensicReport } from '@/app/lib/forensic';
+import { verifyReportSignature } from '@/app/lib/signing';
+import { POST } from './route';
+
+// Server capture replays responses recorded from scripts/mock-roblox.mjs;
+// see src/app/lib/profile.test.ts
+vi.hoisted(() => {
+  process.env.ROBLOX_FIXTURE_MODE ||= 'replay';
+  process.env.ROBLOX_FIXTURE_DIR = 'src/test/fixtures/roblox';
+});
+
+vi.mock('next-auth', () => ({
+  getServerSession: async () => ({ user: { email: 'analyst@example.com' } }),
+}));
+
+const BIO = '</style><script>alert(1)</script><img src=x onerror=alert(1)> javascript:alert(1)';
+
+describe('POST /api/forensic/report', () => {
+  it('serves the rendered HTML report under the strict CSP with hostile text escaped', async () => {
+    const response = await POST(new Request('http://localhost/api/forensic/report', {
+      method: 'POST',
+      body: JSON.stringify({
+        snapshot: {
+          user: { userId: '1', username: 'x', displayName: '"><img src=x onerror=alert(1)>', description: BIO },
+          profile: { bio: BIO, detectedMentions: [], keywords: [] },
+        },
+        query: { input: '<script>alert(1)</script>', mode: 'username' },
+        format: 'html',
+      }),
+    }));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Security-Policy')).toBe(REPORT_CSP);
+    expect(response.headers.get('X-Content-Type-Options')).toBe('nosniff');
+    const body = await response.text();
+    expect(body).not.toMatch(/<script/i);
+    expect(body).not.toMatch(/<img/i);
+    expect(body).toContain('&lt;/style&gt;&lt;script&gt;');
+  });
+
+  it('rejects a user ID query that names another account than the one captured', async () => {
+    const response = await POST(new Request('http://localhost/api/forensic/report', {
+      method: 'POST',
+      body: JSON.stringify({ userId: '2', query: { input: '1', mode: 'userId' }, format: 'json' }),
+    }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('captures, seals and stores a server-side report', async () => {
+    const response = await POST(new Request('http://localhost/api/forensic/report', {
+      method: 'POST',
+      body: JSON.stringify({ userId: '100001', query: { input: 'BuilderBen', mode: 'username' }, format: 'json' }),
+    }));
+
+    expect(response.status).toBe(200);
+    const report: ForensicReport = await response.json();
+    expect(report.meta.capture).toBe('server');
+    expect(report.meta.createdBy).toBe('analyst@example.com');
+    expect(report.snapshot).toMatchObject({ user: { userId: '100001', username: 'BuilderBen' } });
+    expect(report.sources.map(s => s.name)).toEqual([
+      'roblox.users',
+      'roblox.groups',
+      'roblox.friends',
+      'roblox.usernameHistory',
+    ]);
+    expect(await verifyReportIntegrity(report)).toBe(true);
+    expect((await verifyReportSignature(report)).valid).toBe(true);
+  });
+});
+
@@ -1,21 +1,50 @@
 // FILE: src/app/api/forensic/report/route.ts
 // Forensic Mode - Report generation API
 
+import { createHash } from 'crypto';
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import {
+  addCustodyEvent,
   createForensicReport,
   filterSnapshotFields,
   generateReportHTML,
+  REPORT_CSP,
   type FieldSelector,
+  type ReportSource,
+  type SnapshotCapture,
 } from '@/app/lib/forensic';
+import { saveAuditLog } from '@/app/lib/audit';
+import { getCase, linkReport } from '@/app/lib/cases';
+import { signReport } from '@/app/lib/signing';
+import { timestampReport } from '@/app/lib/timestamp';
+import { saveReport } from '@/app/lib/reports';
+import { renderReportPDF } from '@/app/lib/pdf';
+import { queryNamesUser } from '@/app/lib/input';
+import { fetchProfile } from '@/app/lib/profile';
+import {
+  DEFAULT_REDACTION_PROFILE,
+  isMasking,
+  isRedactionProfileId,
+  redactReport,
+  REDACTION_PROFILES,
+  type RedactionProfileId,
+} from '@/app/lib/redaction';
+import { describeRobloxError, RobloxApiError } from '@/app/lib/roblox';
+
+// When enabled, client-submitted snapshots are refused outright
+const SERVER_CAPTURE_ONLY = process.env.FORENSIC_SERVER_CAPTURE_ONLY === 'true';
 
 interface RequestBody {
-  snapshot: Record<string, unknown>;
+  // Preferred: the server fetches the profile itself
+  userId?: string;
+  // Legacy: browser-held snapshot, labelled as unverified in the report
+  snapshot?: Record<string, unknown>;
   query: { input: string; mode: 'userId' | 'username' | 'displayName' };
   caseId?: string;
   fieldSelector?: FieldSelector;
-  format: 'json' | 'pdf';
+  redactionProfile?: RedactionProfileId;
+  format: 'json' | 'pdf' | 'html';
 }
 
 export async function POST(request: Request) {
@@ -27,55 +56,167 @@ export async function POST(request: Request) {
     }
 
     const body: RequestBody = await request.json();
-    const { snapshot, query, caseId, fieldSelector, format } = body;
+    const { query, caseId, fieldSelector, format } = body;
 
-    if (!snapshot || !query) {
+    if (!query || (!body.userId && !body.snapshot)) {
       return NextResponse.json(
-        { error: 'Missing required fields: snapshot, query' },
+        { error: 'Missing required fields: query and userId (or snapshot)' },
         { status: 400 }
       );
     }
 
+    // Otherwise the report would be filed under another account's query
+    const subject = body.userId ?? (body.snapshot?.user as { userId?: unknown } | undefined)?.userId;
+    if (!queryNamesUser(query, String(subject))) {
+      return NextResponse.json({ error: 'Query does not match the captured user' }, { status: 400 });
+    }
+
+    if (caseId) {
+      const linkedCase = await getCase(caseId);
+      if (!linkedCase) {
+        return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+      }
+      if (linkedCase.status === 'closed') {
+        return NextResponse.json({ error: 'Case is closed' }, { status: 409 });
+      }
+    }
+
+    const redactionProfile = body.redactionProfile || DEFAULT_REDACTION_PROFILE;
+    if (!isRedactionProfileId(redactionProfile)) {
+      return NextResponse.json({ error: 'Unknown redaction profile' }, { status: 400 });
+    }
+    const profile = REDACTION_PROFILES[redactionProfile];
+
+    let snapshot: Record<string, unknown>;
+    let sources: ReportSource[];
+    let capture: SnapshotCapture;
+
+    if (body.userId) {
+      if (!/^\d+$/.test(body.userId)) {
+        return NextResponse.json({ error: 'Invalid userId' }, { status: 400 });
+      }
+
+      // Capture the evidence server-side so it cannot be edited in transit,
+      // and live from Roblox so it is never stale
+      const result = await fetchProfile(body.userId, 'forensic', { bypassCache: true });
+      if (!result) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 });
+      }
+      snapshot = { ...result.profile };
+      sources = result.provenance;
+      capture = 'server';
+    } else {
+      if (SERVER_CAPTURE_ONLY) {
+        return NextResponse.json(
+          { error: 'Client-submitted snapshots are not accepted; send userId instead' },
+          { status: 422 }
+        );
+      }
+
+      // Fetch provenance from /api/profile is report metadata, not evidence
+      const { provenance, ...submitted } = body.snapshot as Record<string, unknown>;
+      snapshot = submitted;
+      sources = Array.isArray(provenance) ? (provenance as ReportSource[]) : [];
+      capture = 'client-unverified';
+    }
+
     // Filter snapshot based on field selector
     const filteredSnapshot = fieldSelector
       ? filterSnapshotFields(snapshot, fieldSelector)
       : snapshot;
 
-    // Create forensic report with hash
-    const report = await createForensicReport(
-      filteredSnapshot,
-      query,
-      { email: session.user.email || undefined, name: session.user.name || undefined },
-      caseId
-    );
+    // Create forensic report with hash, timestamped by the configured TSA and
+    // signed with the server key (the signature covers the token)
+    let report = await signReport(await timestampReport(
+      await createForensicReport(
+        filteredSnapshot,
+        query,
+        { email: session.user.email || undefined, name: session.user.name || undefined },
+        caseId,
+        sources,
+        capture
+      )
+    ));
 
-    // TODO: Save audit log to database
-    // await saveAuditLog({
-    //   reportId: report.meta.reportId,
-    //   userId: session.user.email,
-    //   query,
-    //   hash: report.hash.value,
-    //   caseId,
-    //   createdAt: report.meta.createdAt,
-    // });
+    // The full report is sealed and stored; a masking profile only changes
+    // the copy handed out, which is hashed, timestamped and signed itself
+    let exported = report;
+    if (isMasking(profile)) {
+      exported = await signReport(await timestampReport(await redactReport(report, profile)));
+      report = addCustodyEvent(report, `redacted:${profile.id}`, report.meta.createdBy, exported.hash.value);
+      exported = { ...exported, chainOfCustody: report.chainOfCustody };
+    }
+
+    // Render the PDF first so its hash can be recorded in the chain of custody
+    let pdf: Uint8Array | null = null;
+    let exportHash: string | undefined;
+    if (format === 'pdf') {
+      pdf = await renderReportPDF(exported);
+      exportHash = createHash('sha256').update(pdf).digest('hex');
+      report = addCustodyEvent(report, 'exported:pdf', report.meta.createdBy, exportHash);
+      exported = { ...exported, chainOfCustody: report.chainOfCustody };
+    }
+
+    await saveReport(report);
+
+    // Record the export in the audit log
+    const user = snapshot.user as Record<string, unknown> | undefined;
+    if (caseId) {
+      // Only server-captured subjects count as verified accounts on the case
+      await linkReport(caseId, report.meta.reportId, capture === 'server' && user ? {
+        userId: String(user.userId),
+        username: String(user.username),
+        displayName: String(user.displayName),
+        attachedBy: report.meta.createdBy,
+      } : undefined);
+    }
+    await saveAuditLog({
+      reportId: report.meta.reportId,
+      createdBy: report.meta.createdBy,
+      queryInput: query.input,
+      queryMode: query.mode,
+      resultUserId: user?.userId ? String(user.userId) : undefined,
+      snapshotHash: report.hash.value,
+      createdAt: report.meta.createdAt,
+      exportedAt: new Date().toISOString(),
+      exportFormat: format,
+      exportHash,
+      redactionProfile: isMasking(profile) ? profile.id : undefined,
+      caseId,
+    });
 
     if (format === 'json') {
-      return NextResponse.json(report);
+      return NextResponse.json(exported);
+    } else if (pdf) {
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="forensic-report-${report.meta.reportId}.pdf"`,
+          'X-Report-Id': report.meta.reportId,
+          'X-Content-SHA256': exportHash as string,
+        },
+      });
     } else {
-      // Generate HTML for PDF
-      const html = generateReportHTML(report);
+      // Printable HTML view
+      const html = generateReportHTML(exported);
       return new NextResponse(html, {
         headers: {
-          'Content-Type': 'text/html',
+          'Content-Type': 'text/html; charset=utf-8',
           'Content-Disposition': `inline; filename="forensic-report-${report.meta.reportId}.html"`,
+          'Content-Security-Policy': REPORT_CSP,
+          'X-Content-Type-Options': 'nosniff',
         },
       });
     }
   } catch (err) {
     console.error('Forensic report generation error:', err);
+    if (err instanceof RobloxApiError) {
+      const { status, error, headers } = describeRobloxError(err);
+      return NextResponse.json({ error }, { status, headers });
+    }
     return NextResponse.json(
       { error: 'Failed to generate forensic report' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,145 @@
+// FILE: src/app/api/forensic/reverify/route.ts
+// Forensic Mode - Re-verify a stored report against the live profile and issue a follow-up report
+
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import {
+  addCustodyEvent,
+  createForensicReport,
+  filterSnapshotFields,
+  hashDrift,
+  selectorForSnapshot,
+} from '@/app/lib/forensic';
+import { saveAuditLog } from '@/app/lib/audit';
+import { linkReport } from '@/app/lib/cases';
+import { diffSnapshots } from '@/app/lib/drift';
+import { renderReportPDF } from '@/app/lib/pdf';
+import { fetchProfile } from '@/app/lib/profile';
+import { getReport, saveReport, updateReport } from '@/app/lib/reports';
+import { describeRobloxError, RobloxApiError } from '@/app/lib/roblox';
+import { signReport } from '@/app/lib/signing';
+import { timestampReport } from '@/app/lib/timestamp';
+
+interface RequestBody {
+  reportId: string;
+  format?: 'json' | 'pdf';
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { reportId, format = 'json' }: RequestBody = await request.json();
+    if (!reportId || !/^[\w-]+$/.test(reportId)) {
+      return NextResponse.json({ error: 'Missing or invalid reportId' }, { status: 400 });
+    }
+
+    const base = await getReport(reportId);
+    if (!base) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 });
+    }
+
+    const baseUser = base.snapshot.user as Record<string, unknown> | undefined;
+    const userId = baseUser?.userId ? String(baseUser.userId) : '';
+    if (!/^\d+$/.test(userId)) {
+      return NextResponse.json(
+        { error: 'Report snapshot has no user ID to re-verify against' },
+        { status: 422 }
+      );
+    }
+
+    // Same aggregation as /api/profile/[userId]
+    const result = await fetchProfile(userId, 'reverify', { bypassCache: true });
+    if (!result) {
+      return NextResponse.json({ error: 'User no longer resolves on Roblox' }, { status: 404 });
+    }
+
+    // Capture the same sections the base report kept
+    const liveSnapshot = filterSnapshotFields({ ...result.profile }, selectorForSnapshot(base.snapshot));
+    const changes = diffSnapshots(base.snapshot, liveSnapshot);
+    const actor = session.user.email || session.user.name || 'unknown';
+
+    const followUp = await createForensicReport(
+      liveSnapshot,
+      base.query,
+      { email: session.user.email || undefined, name: session.user.name || undefined },
+      base.meta.caseId,
+      result.provenance,
+      'server'
+    );
+    const drift = {
+      baseReportId: base.meta.reportId,
+      baseHash: base.hash.value,
+      baseCreatedAt: base.meta.createdAt,
+      changes,
+    };
+    let report = await signReport(await timestampReport({
+      ...followUp,
+      hash: { ...followUp.hash, driftHash: await hashDrift(drift) },
+      drift,
+    }));
+
+    // Appended to the stored copy under its lock; another re-verification
+    // may have added its own event since `base` was read
+    await updateReport(base.meta.reportId, stored => addCustodyEvent(
+      stored,
+      changes.length > 0 ? `reverified:drift (${changes.length} changes)` : 'reverified:no-drift',
+      actor,
+      report.hash.value,
+      changes
+    ));
+
+    let pdf: Uint8Array | null = null;
+    let exportHash: string | undefined;
+    if (format === 'pdf') {
+      pdf = await renderReportPDF(report);
+      exportHash = createHash('sha256').update(pdf).digest('hex');
+      report = addCustodyEvent(report, 'exported:pdf', actor, exportHash);
+    }
+    await saveReport(report);
+    if (report.meta.caseId) {
+      // Follow-ups stay with the base report's case, even once it is closed
+      await linkReport(report.meta.caseId, report.meta.reportId);
+    }
+
+    await saveAuditLog({
+      reportId: report.meta.reportId,
+      createdBy: report.meta.createdBy,
+      queryInput: report.query.input,
+      queryMode: report.query.mode,
+      resultUserId: userId,
+      snapshotHash: report.hash.value,
+      createdAt: report.meta.createdAt,
+      exportedAt: new Date().toISOString(),
+      exportFormat: format,
+      exportHash,
+      caseId: report.meta.caseId,
+    });
+
+    if (pdf) {
+      return new NextResponse(Buffer.from(pdf), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="follow-up-report-${report.meta.reportId}.pdf"`,
+          'X-Report-Id': report.meta.reportId,
+          'X-Content-SHA256': exportHash as string,
+        },
+      });
+    }
+    return NextResponse.json(report);
+  } catch (err) {
+    console.error('Forensic re-verification error:', err);
+    if (err instanceof RobloxApiError) {
+      const { status, error, headers } = describeRobloxError(err);
+      return NextResponse.json({ error }, { status, headers });
+    }
+    return NextResponse.json(
+      { error: 'Failed to re-verify forensic report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createForensicReport, type ForensicReport } from '@/app/lib/forensic';
+import { POST } from './route';
+
+async function sealed(): Promise<ForensicReport> {
+  return createForensicReport(
+    { user: { userId: '1', username: 'subject' } },
+    { input: '1', mode: 'userId' },
+    { email: 'analyst@example.com' }
+  );
+}
+
+function verify(body: unknown) {
+  return POST(new Request('http://localhost/api/forensic/verify', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  }));
+}
+
+describe('POST /api/forensic/verify', () => {
+  it('verifies a well-formed report', async () => {
+    const response = await verify(await sealed());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ integrity: true });
+  });
+
+  it('rejects a redacted copy whose report ID could not name a stored report', async () => {
+    const report = await sealed();
+    const response = await verify({
+      ...report,
+      meta: {
+        ...report.meta,
+        reportId: '../../etc/passwd',
+        redaction: { profile: 'external-share', originalHash: report.hash.value, maskedFields: [] },
+      },
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid report ID' });
+  });
+
+  it('rejects sources that are not an array', async () => {
+    const response = await verify({ ...(await sealed()), sources: { url: 'https://users.roblox.com' } });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Invalid sources: expected an array' });
+  });
+});
@@ -0,0 +1,101 @@
+// FILE: src/app/api/forensic/verify/route.ts
+// Forensic Mode - Public report verification API (hash, signature, timestamp)
+
+import { NextResponse } from 'next/server';
+import {
+  getReportCanonicalization,
+  isRecord,
+  serializeSnapshot,
+  verifyReportIntegrity,
+  type ForensicReport,
+} from '@/app/lib/forensic';
+import { verifyReportSignature } from '@/app/lib/signing';
+import { verifyTimestampToken } from '@/app/lib/timestamp';
+import { verifyRedaction } from '@/app/lib/redaction';
+import { getReport, isValidReportId } from '@/app/lib/reports';
+
+/**
+ * Why a submitted document can't be checked, or null when it has the report
+ * shape the checks below read
+ */
+function shapeError(report: ForensicReport): string | null {
+  if (!isRecord(report?.meta) || !isRecord(report.snapshot) || !isRecord(report.hash) || !report.hash.value) {
+    return 'Not a forensic report: missing meta, snapshot or hash';
+  }
+  if (!isValidReportId(report.meta.reportId)) {
+    return 'Invalid report ID';
+  }
+  if (typeof report.hash.value !== 'string') {
+    return 'Invalid hash';
+  }
+  if (!Array.isArray(report.sources)) {
+    return 'Invalid sources: expected an array';
+  }
+  if (report.drift !== undefined && !isRecord(report.drift)) {
+    return 'Invalid drift';
+  }
+  const { redaction } = report.meta;
+  if (
+    redaction !== undefined &&
+    (!isRecord(redaction) || typeof redaction.profile !== 'string' || typeof redaction.originalHash !== 'string')
+  ) {
+    return 'Invalid redaction';
+  }
+  return null;
+}
+
+export async function POST(request: Request) {
+  let report: ForensicReport;
+  try {
+    report = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be a JSON report' }, { status: 400 });
+  }
+
+  const invalid = shapeError(report);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  try {
+    const integrity = await verifyReportIntegrity(report);
+    const signature = await verifyReportSignature(report);
+    // Integrity already covers the token; this reports the details
+    const timestamp = report.timestamp
+      ? await verifyTimestampToken(
+          report.timestamp,
+          new TextEncoder().encode(serializeSnapshot(report.snapshot, getReportCanonicalization(report)))
+        )
+      : null;
+
+    // Redacted copies are checked against the sealed original held by this server
+    let redaction: { profile: string; consistent: boolean; reason?: string } | null = null;
+    if (report.meta.redaction) {
+      const original = await getReport(report.meta.reportId);
+      redaction = {
+        profile: report.meta.redaction.profile,
+        ...(original
+          ? await verifyRedaction(report, original)
+          : { consistent: false, reason: 'Sealed original not found on this server' }),
+      };
+    }
+
+    return NextResponse.json({
+      reportId: report.meta.reportId,
+      valid: integrity && signature.valid && (!redaction || redaction.consistent),
+      integrity,
+      canonicalization: getReportCanonicalization(report),
+      capture: report.meta.capture || 'unknown',
+      signature,
+      timestamp,
+      redaction,
+      verifiedAt: new Date().toISOString(),
+    });
+  } catch (err) {
+    console.error('Forensic report verification error:', err);
+    return NextResponse.json(
+      { error: 'Failed to verify forensic report' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+// FILE: src/app/api/jobs/[id]/events/route.ts
+// Batch jobs - Server-sent progress stream for one job
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import {
+  getJob,
+  getJobResults,
+  isFinished,
+  subscribeToJob,
+  toApiRow,
+  withoutSuggestions,
+  type JobEvent,
+} from '@/app/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Sends a `snapshot` event (the job and every row so far), then `progress`
+ * and `status` events as the job runs. Closes once the job has finished.
+ * Rows are numbered from 1, as in the results endpoint.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    if (!(await getJob(id))) {
+      return NextResponse.json({ error: 'Batch job not found' }, { status: 404 });
+    }
+  } catch (err) {
+    console.error('Batch job events error:', err);
+    return NextResponse.json({ error: 'Failed to open batch job events' }, { status: 500 });
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      // Subscribe before reading the snapshot so no row falls in between;
+      // clients key rows by number, so repeats are harmless
+      const unsubscribe = subscribeToJob(id, (event: JobEvent) => {
+        send(event.type, event.type === 'progress' ? { ...event, rows: event.rows.map(toApiRow) } : event);
+        if (isFinished(event.job.status)) cleanup();
+      });
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        controller.close();
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+
+      try {
+        const [job, rows] = await Promise.all([getJob(id), getJobResults(id)]);
+        if (!job) return cleanup();
+        send('snapshot', { job, rows: rows.map(row => toApiRow(withoutSuggestions(row))) });
+        if (isFinished(job.status)) cleanup();
+      } catch (err) {
+        console.error('Batch job snapshot error:', err);
+        cleanup();
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
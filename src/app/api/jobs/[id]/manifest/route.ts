@@ -0,0 +1,43 @@
+// FILE: src/app/api/jobs/[id]/manifest/route.ts
+// Batch jobs - Download the sealed manifest report of a forensic batch
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { getJob } from '@/app/lib/jobs';
+import { getReport } from '@/app/lib/reports';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const job = await getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Batch job not found' }, { status: 404 });
+    }
+    if (!job.forensic) {
+      return NextResponse.json({ error: 'Not a forensic batch' }, { status: 400 });
+    }
+    const report = job.forensic.manifestReportId ? await getReport(job.forensic.manifestReportId) : null;
+    if (!report) {
+      return NextResponse.json({ error: 'The manifest is sealed when the job finishes' }, { status: 404 });
+    }
+
+    return new NextResponse(JSON.stringify(report, null, 2), {
+      headers: {
+        'Content-Type': 'application/json;charset=utf-8',
+        'Content-Disposition': `attachment; filename="forensic-manifest-${report.meta.reportId}.json"`,
+      },
+    });
+  } catch (err) {
+    console.error('Batch job manifest error:', err);
+    return NextResponse.json({ error: 'Failed to fetch batch manifest' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { BatchJob, JobRowResult } from '@/app/lib/jobs';
+import { appendLine, writeJSON } from '@/app/lib/storage';
+import { GET } from './route';
+
+vi.mock('next-auth', () => ({
+  getServerSession: async () => ({ user: { email: 'analyst@example.com' } }),
+}));
+
+const JOB: BatchJob = {
+  id: 'job-1',
+  name: 'Subjects',
+  createdBy: 'analyst@example.com',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  status: 'completed',
+  includeBanned: false,
+  total: 2,
+  processed: 2,
+  counts: { Verified: 2 },
+};
+
+const USER = { id: 1, name: 'subject', displayName: 'Subject', hasVerifiedBadge: false };
+
+describe('GET /api/jobs/[id]/results', () => {
+  it('numbers rows and identities from 1, like the exports', async () => {
+    await writeJSON('jobs.json', [JOB]);
+    const rows: JobRowResult[] = [
+      { row: 0, input: 'subject', status: 'Verified', user: USER },
+      { row: 1, input: '1', status: 'Verified', user: USER },
+    ];
+    for (const row of rows) await appendLine(`jobs/${JOB.id}/results.ndjson`, row);
+
+    const response = await GET(new Request(`http://localhost/api/jobs/${JOB.id}/results`), { params: { id: JOB.id } });
+    const body = await response.json();
+
+    expect(body.rows.map((r: JobRowResult) => r.row)).toEqual([1, 2]);
+    expect(body.identities[0].rows).toEqual([1, 2]);
+  });
+});
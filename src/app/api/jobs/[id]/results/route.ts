@@ -0,0 +1,48 @@
+// FILE: src/app/api/jobs/[id]/results/route.ts
+// Batch jobs - Fetch a job's results, or download them as CSV, XLSX, JSON or NDJSON
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { isExportFormat, renderExport } from '@/app/lib/exports';
+import { clusterIdentities } from '@/app/lib/identities';
+import { getJob, getJobResults, toApiRow } from '@/app/lib/jobs';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+  const format = new URL(request.url).searchParams.get('format');
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const job = await getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Batch job not found' }, { status: 404 });
+    }
+    if (format !== null && !isExportFormat(format)) {
+      return NextResponse.json({ error: 'format must be csv, xlsx, json or ndjson' }, { status: 400 });
+    }
+    const rows = await getJobResults(id);
+
+    if (format) {
+      const { body, contentType, filename } = renderExport(format, job, rows);
+      return new NextResponse(typeof body === 'string' ? body : Buffer.from(body), {
+        headers: {
+          'Content-Type': contentType,
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+    // Numbered from 1 like the exports, identities included
+    const numbered = rows.map(toApiRow);
+    return NextResponse.json({ job, rows: numbered, identities: clusterIdentities(numbered) });
+  } catch (err) {
+    console.error('Batch job results error:', err);
+    return NextResponse.json({ error: 'Failed to fetch batch job results' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+// FILE: src/app/api/jobs/[id]/route.ts
+// Batch jobs - Job status and pause/resume/cancel controls
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { controlJob, getJob, JOB_ACTIONS, type JobAction } from '@/app/lib/jobs';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const job = await getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Batch job not found' }, { status: 404 });
+    }
+    return NextResponse.json(job);
+  } catch (err) {
+    console.error('Batch job fetch error:', err);
+    return NextResponse.json({ error: 'Failed to fetch batch job' }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: { action?: JobAction } = await request.json();
+    if (!body.action || !(body.action in JOB_ACTIONS)) {
+      return NextResponse.json({ error: 'action must be pause, resume or cancel' }, { status: 400 });
+    }
+
+    const job = await getJob(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Batch job not found' }, { status: 404 });
+    }
+    if (!JOB_ACTIONS[body.action].includes(job.status)) {
+      return NextResponse.json({ error: `Cannot ${body.action} a ${job.status} job` }, { status: 409 });
+    }
+
+    return NextResponse.json(await controlJob(id, body.action));
+  } catch (err) {
+    console.error('Batch job update error:', err);
+    return NextResponse.json({ error: 'Failed to update batch job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,109 @@
+// FILE: src/app/api/jobs/route.ts
+// Batch jobs - List jobs and start a batch verification job
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { getCase } from '@/app/lib/cases';
+import { createJob, listJobs, MAX_JOB_ROWS, type JobInput } from '@/app/lib/jobs';
+
+function stringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter((v): v is string => typeof v === 'string').map(v => v.trim()).filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+/**
+ * Rows from the column mapping step, or bare identifiers. Null if malformed.
+ */
+function parseRows(body: { inputs?: unknown; rows?: unknown }): JobInput[] | null {
+  if (Array.isArray(body.inputs)) {
+    if (body.inputs.some(input => typeof input !== 'string')) return null;
+    return (body.inputs as string[]).map(input => ({ input }));
+  }
+  if (!Array.isArray(body.rows)) return null;
+
+  const rows: JobInput[] = [];
+  for (const raw of body.rows as Array<Record<string, unknown>>) {
+    if (!raw || typeof raw.input !== 'string') return null;
+    const hints = (raw.hints || {}) as Record<string, unknown>;
+    const keywords = stringList(hints.keywords);
+    const groupIds = stringList(hints.groupIds);
+    rows.push({
+      input: raw.input,
+      ...(typeof raw.reference === 'string' && raw.reference.trim() && { reference: raw.reference.trim() }),
+      ...((keywords || groupIds) && { hints: { keywords, groupIds } }),
+    });
+  }
+  return rows;
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ jobs: await listJobs() });
+  } catch (err) {
+    console.error('Batch job list error:', err);
+    return NextResponse.json({ error: 'Failed to fetch batch jobs' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: {
+      name?: string;
+      inputs?: unknown;
+      rows?: unknown;
+      includeBanned?: boolean;
+      profileDetails?: boolean;
+      // Makes the job a forensic batch sealing its evidence on this case
+      caseId?: string;
+    } = await request.json();
+    const parsed = parseRows(body);
+    if (!parsed) {
+      return NextResponse.json(
+        { error: 'Send inputs (an array of strings) or rows (objects with an input string)' },
+        { status: 400 }
+      );
+    }
+    // Rows without an identifier are kept if they carry a reference, so they show up as invalid
+    const inputs = parsed.filter(row => row.input.trim() || row.reference);
+    if (inputs.length === 0) {
+      return NextResponse.json({ error: 'No rows to verify' }, { status: 400 });
+    }
+    if (inputs.length > MAX_JOB_ROWS) {
+      return NextResponse.json({ error: `At most ${MAX_JOB_ROWS} rows per job` }, { status: 413 });
+    }
+
+    if (body.caseId !== undefined) {
+      const linkedCase = typeof body.caseId === 'string' ? await getCase(body.caseId) : null;
+      if (!linkedCase) {
+        return NextResponse.json({ error: 'Case not found' }, { status: 404 });
+      }
+      if (linkedCase.status === 'closed') {
+        return NextResponse.json({ error: 'Case is closed' }, { status: 409 });
+      }
+    }
+
+    const created = await createJob({
+      name: body.name?.trim() || `Batch of ${inputs.length}`,
+      createdBy: session.user.email || session.user.name || 'unknown',
+      inputs,
+      includeBanned: body.includeBanned === true,
+      profileDetails: body.profileDetails === true,
+      caseId: body.caseId,
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (err) {
+    console.error('Batch job creation error:', err);
+    return NextResponse.json({ error: 'Failed to create batch job' }, { status: 500 });
+  }
+}
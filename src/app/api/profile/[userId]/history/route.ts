@@ -0,0 +1,29 @@
+// FILE: src/app/api/profile/[userId]/history/route.ts
+// Profile History - Observed and Roblox-reported history timeline API
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { getProfileHistory } from '@/app/lib/history';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { userId: string } }
+) {
+  const { userId } = await params;
+
+  if (!/^\d+$/.test(userId || '')) {
+    return NextResponse.json({ error: 'Invalid userId' }, { status: 400 });
+  }
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json(await getProfileHistory(userId));
+  } catch (err) {
+    console.error('Profile history error:', err);
+    return NextResponse.json({ error: 'Failed to load profile history' }, { status: 500 });
+  }
+}
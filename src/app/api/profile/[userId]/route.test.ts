@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+
+const auth = vi.hoisted(() => ({ session: null as { user: { email: string } } | null }));
+const fetchProfile = vi.hoisted(() => vi.fn());
+
+vi.mock('next-auth', () => ({
+  getServerSession: async () => auth.session,
+}));
+vi.mock('@/app/lib/profile', () => ({ fetchProfile }));
+
+function lookup(userId: string) {
+  return GET(new Request(`http://localhost/api/profile/${userId}`), { params: { userId } });
+}
+
+describe('GET /api/profile/[userId]', () => {
+  beforeEach(() => {
+    fetchProfile.mockReset().mockResolvedValue({ profile: { user: { userId: '1' } }, provenance: [], raw: {} });
+  });
+
+  it('does not record snapshots for anonymous lookups', async () => {
+    auth.session = null;
+
+    expect((await lookup('1')).status).toBe(200);
+    expect(fetchProfile).toHaveBeenCalledWith('1', 'lookup', { bypassCache: false, recordSnapshot: false });
+  });
+
+  it('records snapshots for signed-in lookups', async () => {
+    auth.session = { user: { email: 'analyst@example.com' } };
+
+    expect((await lookup('1')).status).toBe(200);
+    expect(fetchProfile).toHaveBeenCalledWith('1', 'lookup', { bypassCache: false, recordSnapshot: true });
+  });
+});
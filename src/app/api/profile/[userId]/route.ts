@@ -2,194 +2,47 @@
 // Deep Context Lookup - Profile aggregation API
 
 import { NextResponse } from 'next/server';
-
-interface GroupRole {
-  group: {
-    id: number;
-    name: string;
-    memberCount: number;
-  };
-  role: {
-    id: number;
-    name: string;
-    rank: number;
-  };
-}
-
-interface ProfileData {
-  user: {
-    userId: string;
-    username: string;
-    displayName: string;
-    avatarUrl: string;
-    createdAt: string;
-    description: string;
-    isBanned: boolean;
-  };
-  counts: {
-    friends: number;
-    followers: number;
-    following: number;
-  };
-  profile: {
-    bio: string;
-    detectedMentions: string[];
-    keywords: string[];
-  };
-  groups: Array<{
-    name: string;
-    role: string;
-    id: string;
-    joinedAt: string;
-    isOwner: boolean;
-    riskTag: 'low' | 'med' | 'high';
-  }>;
-  history: {
-    pastDisplayNames: string[];
-    pastUsernames: string[];
-  };
-}
-
-// Risk tags for groups (configurable)
-const GROUP_RISK_TAGS: Record<string, 'low' | 'med' | 'high'> = {
-  // Add known risky group IDs here
-  // '12345': 'high',
-  // '67890': 'med',
-};
-
-// Keyword flags (configurable)
-const KEYWORD_FLAGS = [
-  'discord', 'discord.gg', '@', '#',
-  'school', 'age', 'years old', 'yo',
-  'instagram', 'twitter', 'youtube',
-  'snap', 'tiktok', 'venmo', 'cashapp'
-];
-
-function parseBioForMentions(bio: string): string[] {
-  const mentions: string[] = [];
-  
-  // Discord patterns
-  if (bio.match(/discord\.gg\/[\w-]+/i)) {
-    mentions.push('discord:invite_link');
-  }
-  if (bio.match(/discord[:\s]+[\w#]+\d{4}/i)) {
-    mentions.push('discord:username');
-  }
-  
-  // Twitter/X
-  const twitterMatch = bio.match(/@[\w]+\s*(?:twitter|x\.com)/i);
-  if (twitterMatch) {
-    mentions.push(`x:${twitterMatch[0]}`);
-  }
-  
-  // YouTube
-  const youtubeMatch = bio.match(/youtube\.com\/(c\/|@)?[\w-]+/i);
-  if (youtubeMatch) {
-    mentions.push(`youtube:${youtubeMatch[0]}`);
-  }
-  
-  return mentions;
-}
-
-function detectKeywords(bio: string): string[] {
-  const detected: string[] = [];
-  const lowerBio = bio.toLowerCase();
-  
-  KEYWORD_FLAGS.forEach(keyword => {
-    if (lowerBio.includes(keyword.toLowerCase())) {
-      detected.push(`flag:${keyword}`);
-    }
-  });
-  
-  return detected;
-}
+import { getServerSession } from 'next-auth';
+import { fetchProfile } from '@/app/lib/profile';
+import { describeRobloxError, RobloxApiError } from '@/app/lib/roblox';
 
 export async function GET(
   request: Request,
   { params }: { params: { userId: string } }
 ) {
   const { userId } = await params;
+  const bypassCache = new URL(request.url).searchParams.get('bypassCache') === 'true';
 
   if (!userId) {
     return NextResponse.json({ error: 'Missing userId' }, { status: 400 });
   }
 
   try {
-    // Parallel API calls for performance
-    const [userResponse, groupsResponse, friendsResponse] = await Promise.allSettled([
-      fetch(`https://users.roblox.com/v1/users/${userId}`),
-      fetch(`https://groups.roblox.com/v2/users/${userId}/groups/roles`),
-      fetch(`https://friends.roblox.com/v1/users/${userId}/friends/count`),
-    ]);
-
-    // Parse user data
-    let userData = null;
-    if (userResponse.status === 'fulfilled' && userResponse.value.ok) {
-      userData = await userResponse.value.json();
-    } else {
+    // Anonymous lookups are served but not recorded, so they can't grow the
+    // snapshot store
+    const session = await getServerSession();
+    const result = await fetchProfile(userId, 'lookup', { bypassCache, recordSnapshot: !!session?.user });
+    if (!result) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // Parse groups data
-    let groupsData: GroupRole[] = [];
-    if (groupsResponse.status === 'fulfilled' && groupsResponse.value.ok) {
-      const groupsJson = await groupsResponse.value.json();
-      groupsData = groupsJson.data || [];
-    }
-
-    // Parse friends count
-    let friendsCount = 0;
-    if (friendsResponse.status === 'fulfilled' && friendsResponse.value.ok) {
-      const friendsJson = await friendsResponse.value.json();
-      friendsCount = friendsJson.count || 0;
-    }
-
-    // Build profile data
-    const bio = userData.description || '';
-    const detectedMentions = parseBioForMentions(bio);
-    const keywords = detectKeywords(bio);
-
-    const profileData: ProfileData = {
-      user: {
-        userId: userData.id.toString(),
-        username: userData.name,
-        displayName: userData.displayName,
-        avatarUrl: `/api/thumbnail?userId=${userData.id}`,
-        createdAt: userData.created,
-        description: bio,
-        isBanned: userData.isBanned || false,
-      },
-      counts: {
-        friends: friendsCount,
-        followers: 0, // Not available via API
-        following: 0, // Not available via API
-      },
-      profile: {
-        bio,
-        detectedMentions,
-        keywords,
-      },
-      groups: groupsData.slice(0, 10).map((g) => ({
-        name: g.group.name,
-        role: g.role.name,
-        id: g.group.id.toString(),
-        joinedAt: new Date().toISOString(), // Not available via API
-        isOwner: g.role.rank === 255,
-        riskTag: GROUP_RISK_TAGS[g.group.id.toString()] || 'low',
-      })),
-      history: {
-        pastDisplayNames: [], // Not available via API
-        pastUsernames: [], // Not available via API
-      },
-    };
-
-    return NextResponse.json(profileData, {
+    // Provenance travels with the profile so forensic reports can cite it;
+    // its entries say which sources came from the response cache
+    const allCached = result.provenance.every(p => p.cached);
+    return NextResponse.json({ ...result.profile, provenance: result.provenance }, {
       headers: {
-        'Cache-Control': 'public, s-maxage=900, stale-while-revalidate=1800', // 15 min cache
+        'Cache-Control': bypassCache
+          ? 'no-store'
+          : 'public, s-maxage=900, stale-while-revalidate=1800', // 15 min cache
+        'X-Cache': bypassCache ? 'BYPASS' : allCached ? 'HIT' : 'MISS',
       },
     });
-  } catch (error) {
-    console.error('Profile API Error:', error);
+  } catch (err) {
+    console.error('Profile API Error:', err);
+    if (err instanceof RobloxApiError) {
+      const { status, error, headers } = describeRobloxError(err);
+      return NextResponse.json({ error }, { status, headers });
+    }
     return NextResponse.json({ error: 'Failed to fetch profile' }, { status: 500 });
   }
 }
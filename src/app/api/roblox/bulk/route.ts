@@ -0,0 +1,37 @@
+// FILE: src/app/api/roblox/bulk/route.ts
+// Bulk resolution - Resolve many usernames and user IDs in chunked Roblox calls
+
+import { NextResponse } from 'next/server';
+import { MAX_BULK_INPUTS, resolveBulk } from '@/app/lib/bulk';
+import { describeRobloxError } from '@/app/lib/roblox';
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const { usernames = [], userIds = [], includeBanned, bypassCache } = body || {};
+
+  if (!isStringArray(usernames) || !isStringArray(userIds)) {
+    return NextResponse.json({ error: 'usernames and userIds must be arrays of strings' }, { status: 400 });
+  }
+  if (usernames.length + userIds.length > MAX_BULK_INPUTS) {
+    return NextResponse.json(
+      { error: `At most ${MAX_BULK_INPUTS} usernames and user IDs per request` },
+      { status: 413 }
+    );
+  }
+
+  try {
+    const resolution = await resolveBulk(
+      { usernames, userIds },
+      { includeBanned: includeBanned === true, bypassCache: bypassCache === true }
+    );
+    return NextResponse.json(resolution);
+  } catch (err) {
+    console.error('Roblox bulk lookup error:', err);
+    const { status, error, headers } = describeRobloxError(err);
+    return NextResponse.json({ error }, { status, headers });
+  }
+}
@@ -1,35 +1,42 @@
 import { NextResponse } from 'next/server';
+import { cacheHeaders, describeRobloxError, getUser, getUsersByUsernames } from '@/app/lib/roblox';
 
 export async function POST(request: Request) {
   const body = await request.json();
-  const { username, includeBanned } = body;
+  const { username, includeBanned, bypassCache } = body;
+
+  if (!username || typeof username !== 'string') {
+    return NextResponse.json({ error: 'Missing username' }, { status: 400 });
+  }
 
   try {
-    const response = await fetch('https://users.roblox.com/v1/usernames/users', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ usernames: [username], excludeBannedUsers: !includeBanned }),
+    const { data, cache } = await getUsersByUsernames([username], {
+      excludeBanned: !includeBanned,
+      bypassCache: bypassCache === true,
     });
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch  {
-    return NextResponse.json({ error: 'Failed to fetch from Roblox' }, { status: 500 });
+    return NextResponse.json({ data, cache }, { headers: cacheHeaders(cache, bypassCache === true) });
+  } catch (err) {
+    console.error('Roblox username lookup error:', err);
+    const { status, error, headers } = describeRobloxError(err);
+    return NextResponse.json({ error }, { status, headers });
   }
 }
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const userId = searchParams.get('userId');
+  const bypassCache = searchParams.get('bypassCache') === 'true';
 
   if (!userId) {
     return NextResponse.json({ error: 'Missing userId' }, { status: 400 });
   }
 
   try {
-    const response = await fetch(`https://users.roblox.com/v1/users/${userId}`);
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    return NextResponse.json({ error: 'Failed to fetch from Roblox' }, { status: 500 });
+    const { data, cache } = await getUser(userId, { bypassCache });
+    return NextResponse.json(data, { headers: cacheHeaders(cache, bypassCache) });
+  } catch (err) {
+    console.error('Roblox user lookup error:', err);
+    const { status, error, headers } = describeRobloxError(err);
+    return NextResponse.json({ error }, { status, headers });
   }
-}
\ No newline at end of file
+}
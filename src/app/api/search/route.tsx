@@ -1,19 +1,26 @@
 import { NextResponse } from 'next/server';
+import { cacheHeaders, describeRobloxError, RobloxApiError, searchUsers } from '@/app/lib/roblox';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const keyword = searchParams.get('keyword');
-  const limit = searchParams.get('limit') || '10';
+  const limit = Number(searchParams.get('limit')) || 10;
+  const bypassCache = searchParams.get('bypassCache') === 'true';
 
   if (!keyword) {
     return NextResponse.json({ error: 'Missing keyword' }, { status: 400 });
   }
 
   try {
-    const response = await fetch(`https://users.roblox.com/v1/users/search?keyword=${encodeURIComponent(keyword)}&limit=${limit}`);
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch  {
-    return NextResponse.json({ error: 'Failed to fetch from Roblox' }, { status: 500 });
+    const { data, cache } = await searchUsers(keyword, limit, { bypassCache });
+    return NextResponse.json({ data, cache }, { headers: cacheHeaders(cache, bypassCache) });
+  } catch (err) {
+    // Roblox answers 400 for keywords it considers invalid or filtered
+    if (err instanceof RobloxApiError && err.status === 400) {
+      return NextResponse.json({ data: [] });
+    }
+    console.error('Roblox search error:', err);
+    const { status, error, headers } = describeRobloxError(err);
+    return NextResponse.json({ error }, { status, headers });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,69 @@
+// FILE: src/app/api/watchlists/[id]/route.ts
+// Watchlists - Edit and delete a watchlist
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { deleteWatchlist, editWatchlist } from '@/app/lib/watchlists';
+
+interface WatchlistEdit {
+  name?: string;
+  intervalMinutes?: number;
+  addUserIds?: string[];
+  removeUserIds?: string[];
+}
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: WatchlistEdit = await request.json();
+    const addUserIds = (body.addUserIds || []).map(u => String(u).trim());
+    if (addUserIds.some(u => !/^\d+$/.test(u))) {
+      return NextResponse.json({ error: 'userIds must be numeric Roblox user IDs' }, { status: 400 });
+    }
+
+    const updated = await editWatchlist(id, {
+      name: body.name?.trim() || undefined,
+      intervalMinutes: Number(body.intervalMinutes) || undefined,
+      addUserIds,
+      removeUserIds: body.removeUserIds || [],
+    });
+    if (!updated) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+    return NextResponse.json(updated);
+  } catch (err) {
+    console.error('Watchlist update error:', err);
+    return NextResponse.json({ error: 'Failed to update watchlist' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await deleteWatchlist(id))) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    console.error('Watchlist deletion error:', err);
+    return NextResponse.json({ error: 'Failed to delete watchlist' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+// FILE: src/app/api/watchlists/[id]/run/route.ts
+// Watchlists - Run a watchlist check immediately
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { runWatchlist } from '@/app/lib/watchlists';
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const { id } = await params;
+
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await runWatchlist(id);
+    if (!result) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+    return NextResponse.json(result);
+  } catch (err) {
+    console.error('Watchlist run error:', err);
+    return NextResponse.json({ error: 'Failed to run watchlist' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+// FILE: src/app/api/watchlists/route.ts
+// Watchlists - List and create watchlists
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { createWatchlist, listWatchlists } from '@/app/lib/watchlists';
+
+export async function GET() {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    return NextResponse.json({ watchlists: await listWatchlists() });
+  } catch (err) {
+    console.error('Watchlist list error:', err);
+    return NextResponse.json({ error: 'Failed to fetch watchlists' }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body: { name?: string; userIds?: string[]; intervalMinutes?: number } = await request.json();
+    const name = body.name?.trim();
+    if (!name) {
+      return NextResponse.json({ error: 'Missing required field: name' }, { status: 400 });
+    }
+    const userIds = (body.userIds || []).map(id => String(id).trim());
+    if (userIds.some(id => !/^\d+$/.test(id))) {
+      return NextResponse.json({ error: 'userIds must be numeric Roblox user IDs' }, { status: 400 });
+    }
+
+    const created = await createWatchlist({
+      name,
+      createdBy: session.user.email || session.user.name || 'unknown',
+      userIds,
+      intervalMinutes: Number(body.intervalMinutes) || undefined,
+    });
+    return NextResponse.json(created, { status: 201 });
+  } catch (err) {
+    console.error('Watchlist creation error:', err);
+    return NextResponse.json({ error: 'Failed to create watchlist' }, { status: 500 });
+  }
+}
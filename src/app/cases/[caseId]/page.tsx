@@ -0,0 +1,38 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { useParams, useRouter } from 'next/navigation';
+import CaseDetail from '../../components/CaseDetail';
+
+export default function CasePage() {
+  const { caseId } = useParams<{ caseId: string }>();
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  if (status === 'loading') {
+    return <div>Loading...</div>;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+      <div className="mx-auto w-full max-w-5xl">
+        <Link href="/cases" className="inline-block mb-4 text-sm text-blue-600 hover:text-blue-800">
+          ← All Cases
+        </Link>
+        <CaseDetail caseId={decodeURIComponent(caseId)} />
+      </div>
+    </main>
+  );
+}
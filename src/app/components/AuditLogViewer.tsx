@@ -4,7 +4,6 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { useSession } from 'next-auth/react';
 
 interface AuditLogEntry {
   id: string;
@@ -16,55 +15,139 @@ interface AuditLogEntry {
   snapshotHash: string;
   createdAt: string;
   exportedAt?: string;
+  exportFormat?: string;
   caseId?: string;
+  prevHash: string;
+  entryHash: string;
 }
 
+interface AuditChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  verifiedAt: string;
+  headHash?: string;
+  brokenLink?: {
+    index: number;
+    entryId?: string;
+    reason: string;
+  };
+}
+
+interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  stats: {
+    today: number;
+    uniqueCases: number;
+  };
+}
+
+const PAGE_SIZE = 20;
+
 export default function AuditLogViewer() {
-  const { data: session } = useSession();
   const [logs, setLogs] = useState<AuditLogEntry[]>([]);
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [stats, setStats] = useState({ total: 0, today: 0, uniqueCases: 0 });
   const [filters, setFilters] = useState({
     user: '',
     caseId: '',
     dateFrom: '',
     dateTo: '',
   });
+  const [appliedFilters, setAppliedFilters] = useState(filters);
+  const [verifying, setVerifying] = useState(false);
+  const [chainResult, setChainResult] = useState<AuditChainVerification | null>(null);
+  const [reverifying, setReverifying] = useState<string | null>(null);
 
   const fetchLogs = useCallback(async () => {
     setLoading(true);
+    setError(null);
     try {
-      // TODO: Implement actual API call
-      // const response = await fetch('/api/forensic/audit');
-      // const data = await response.json();
-      // setLogs(data);
-    
-      // Mock data for now
-      setLogs([
-        {
-          id: '1',
-          reportId: 'report-001',
-          createdBy: session?.user?.email || 'analyst@example.com',
-          queryInput: 'Roblox',
-          queryMode: 'username',
-          resultUserId: '1',
-          snapshotHash: 'a1b2c3d4e5f6...',
-          createdAt: new Date().toISOString(),
-          caseId: 'CASE-2025-001',
-        },
-      ]);
-    } catch (error) {
-      console.error('Failed to fetch audit logs:', error);
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      Object.entries(appliedFilters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+
+      const response = await fetch(`/api/forensic/audit?${params.toString()}`);
+      if (!response.ok) {
+        throw new Error(response.status === 403 ? 'Admin role required' : 'Failed to fetch audit logs');
+      }
+      const data: AuditLogPage = await response.json();
+      setLogs(data.entries);
+      setTotalPages(data.totalPages);
+      setStats({ total: data.total, today: data.stats.today, uniqueCases: data.stats.uniqueCases });
+    } catch (err) {
+      console.error('Failed to fetch audit logs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch audit logs');
+      setLogs([]);
     }
     setLoading(false);
-  }, [session?.user?.email]);
+  }, [page, appliedFilters]);
 
-  // Mock data for demonstration (replace with actual API call)
   useEffect(() => {
     fetchLogs();
   }, [fetchLogs]);
 
   const applyFilters = () => {
-    fetchLogs();
+    setPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const verifyChain = async () => {
+    setVerifying(true);
+    try {
+      const response = await fetch('/api/forensic/audit/verify');
+      if (!response.ok) {
+        throw new Error('Failed to verify audit chain');
+      }
+      setChainResult(await response.json());
+    } catch (err) {
+      console.error('Audit chain verification failed:', err);
+      alert('Failed to verify audit chain. Please try again.');
+    }
+    setVerifying(false);
+  };
+
+  const reverifyReport = async (reportId: string) => {
+    setReverifying(reportId);
+    try {
+      const response = await fetch('/api/forensic/reverify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reportId, format: 'json' }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to re-verify report');
+      }
+
+      const followUp = await response.json();
+      const blob = new Blob([JSON.stringify(followUp, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `follow-up-report-${followUp.meta.reportId}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      const changes: Array<{ summary: string }> = followUp.drift?.changes || [];
+      alert(
+        changes.length === 0
+          ? 'No drift: the live profile matches the sealed report.'
+          : `${changes.length} change(s) since the sealed report:\n${changes.map(c => `• ${c.summary}`).join('\n')}`
+      );
+      fetchLogs();
+    } catch (err) {
+      console.error('Report re-verification failed:', err);
+      alert(err instanceof Error ? err.message : 'Failed to re-verify report');
+    }
+    setReverifying(null);
   };
 
   const exportLogs = () => {
@@ -112,16 +195,48 @@ export default function AuditLogViewer() {
           <h2 className="text-2xl font-bold text-gray-800">Audit Logs</h2>
           <p className="text-sm text-gray-600">Forensic activity tracking and compliance</p>
         </div>
-        <button
-          onClick={exportLogs}
-          className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition"
-        >
-          📥 Export CSV
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={verifyChain}
+            disabled={verifying}
+            className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:bg-gray-300 transition"
+          >
+            {verifying ? 'Verifying...' : '🔗 Verify Chain'}
+          </button>
+          <button
+            onClick={exportLogs}
+            className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 transition"
+          >
+            📥 Export CSV
+          </button>
+        </div>
       </div>
 
+      {/* Chain Verification Result */}
+      {chainResult && (
+        chainResult.valid ? (
+          <div className="bg-green-50 border-l-4 border-green-400 p-4 mb-6 text-sm text-green-800">
+            <strong>✓ Ledger intact.</strong> All {chainResult.checkedEntries} entries are correctly
+            hash-chained (checked {new Date(chainResult.verifiedAt).toLocaleString()}).
+            {chainResult.headHash && (
+              <div className="mt-1 text-xs">
+                Head hash: <code className="break-all">{chainResult.headHash}</code>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-6 text-sm text-red-800">
+            <strong>⚠️ Ledger tampering detected</strong> at entry #{(chainResult.brokenLink?.index ?? 0) + 1}
+            {chainResult.brokenLink?.entryId && (
+              <> (<code className="text-xs">{chainResult.brokenLink.entryId}</code>)</>
+            )}
+            : {chainResult.brokenLink?.reason}. {chainResult.checkedEntries} preceding entries verified.
+          </div>
+        )
+      )}
+
       {/* Filters */}
-      <div className="bg-gray-50 p-4 rounded-lg mb-6 grid grid-cols-2 md:grid-cols-4 gap-3">
+      <div className="bg-gray-50 p-4 rounded-lg mb-6 grid grid-cols-2 md:grid-cols-5 gap-3">
         <input
           type="text"
           placeholder="Filter by user..."
@@ -142,6 +257,12 @@ export default function AuditLogViewer() {
           onChange={(e) => setFilters({ ...filters, dateFrom: e.target.value })}
           className="px-3 py-2 border rounded-lg text-sm"
         />
+        <input
+          type="date"
+          value={filters.dateTo}
+          onChange={(e) => setFilters({ ...filters, dateTo: e.target.value })}
+          className="px-3 py-2 border rounded-lg text-sm"
+        />
         <button
           onClick={applyFilters}
           className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition text-sm"
@@ -154,22 +275,24 @@ export default function AuditLogViewer() {
       <div className="grid grid-cols-3 gap-4 mb-6">
         <div className="bg-blue-50 p-4 rounded-lg">
           <p className="text-sm text-blue-600 font-medium">Total Reports</p>
-          <p className="text-3xl font-bold text-blue-800">{logs.length}</p>
+          <p className="text-3xl font-bold text-blue-800">{stats.total}</p>
         </div>
         <div className="bg-purple-50 p-4 rounded-lg">
           <p className="text-sm text-purple-600 font-medium">Today</p>
-          <p className="text-3xl font-bold text-purple-800">
-            {logs.filter(l => new Date(l.createdAt).toDateString() === new Date().toDateString()).length}
-          </p>
+          <p className="text-3xl font-bold text-purple-800">{stats.today}</p>
         </div>
         <div className="bg-green-50 p-4 rounded-lg">
           <p className="text-sm text-green-600 font-medium">Unique Cases</p>
-          <p className="text-3xl font-bold text-green-800">
-            {new Set(logs.filter(l => l.caseId).map(l => l.caseId)).size}
-          </p>
+          <p className="text-3xl font-bold text-green-800">{stats.uniqueCases}</p>
         </div>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-6 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
       {/* Logs Table */}
       <div className="overflow-x-auto">
         {logs.length === 0 ? (
@@ -188,6 +311,7 @@ export default function AuditLogViewer() {
                 <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Result</th>
                 <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Case ID</th>
                 <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Hash</th>
+                <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Actions</th>
               </tr>
             </thead>
             <tbody>
@@ -231,6 +355,16 @@ export default function AuditLogViewer() {
                       {log.snapshotHash.substring(0, 8)}...
                     </code>
                   </td>
+                  <td className="py-3 px-3">
+                    <button
+                      onClick={() => reverifyReport(log.reportId)}
+                      disabled={reverifying !== null || !log.resultUserId}
+                      title="Compare the sealed snapshot with the live profile"
+                      className="text-xs px-2 py-1 border rounded hover:bg-gray-100 disabled:opacity-50 whitespace-nowrap"
+                    >
+                      {reverifying === log.reportId ? 'Checking...' : '🔄 Re-verify'}
+                    </button>
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -238,13 +372,26 @@ export default function AuditLogViewer() {
         )}
       </div>
 
-      {/* Pagination (if needed) */}
-      {logs.length > 20 && (
-        <div className="flex justify-center mt-6 gap-2">
-          <button className="px-4 py-2 border rounded-lg hover:bg-gray-50 text-sm">Previous</button>
-          <button className="px-4 py-2 bg-blue-500 text-white rounded-lg text-sm">1</button>
-          <button className="px-4 py-2 border rounded-lg hover:bg-gray-50 text-sm">2</button>
-          <button className="px-4 py-2 border rounded-lg hover:bg-gray-50 text-sm">Next</button>
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex justify-center items-center mt-6 gap-2">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            className="px-4 py-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm"
+          >
+            Previous
+          </button>
+          <span className="px-4 py-2 text-sm text-gray-600">
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+            className="px-4 py-2 border rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm"
+          >
+            Next
+          </button>
         </div>
       )}
     </div>
@@ -0,0 +1,347 @@
+// FILE: src/app/components/BatchJobProgress.tsx
+// Batch jobs - Live progress, controls and results for one server-side batch job
+
+'use client';
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import Link from 'next/link';
+import { clusterIdentities } from '../lib/identities';
+
+interface BatchJob {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  status: 'queued' | 'running' | 'paused' | 'cancelled' | 'completed' | 'failed';
+  total: number;
+  processed: number;
+  counts: Record<string, number>;
+  duplicates?: number;
+  forensic?: {
+    caseId: string;
+    manifestReportId?: string;
+    manifestHash?: string;
+  };
+  error?: string;
+}
+
+interface JobRow {
+  row: number;
+  input: string;
+  reference?: string;
+  status: string;
+  details?: string;
+  user?: {
+    id: number;
+    name: string;
+    displayName: string;
+  };
+  report?: {
+    reportId: string;
+    hash: string;
+  };
+  reportError?: string;
+}
+
+interface BatchJobProgressProps {
+  jobId: string;
+  onClose?: () => void;
+}
+
+const FINISHED = ['cancelled', 'completed', 'failed'];
+
+// Rendering thousands of rows live is slow; the exports have all of them
+const MAX_VISIBLE_ROWS = 500;
+
+// How often streamed rows are flushed into the table
+const FLUSH_MS = 250;
+
+const EXPORT_FORMATS = ['csv', 'xlsx', 'json', 'ndjson'];
+
+const STATUS_STYLES: Record<BatchJob['status'], string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  paused: 'bg-yellow-100 text-yellow-800',
+  cancelled: 'bg-gray-200 text-gray-600',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export default function BatchJobProgress({ jobId, onClose }: BatchJobProgressProps) {
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [rows, setRows] = useState<JobRow[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<'rows' | 'accounts'>('rows');
+  const rowsByNumber = useRef(new Map<number, JobRow>());
+
+  useEffect(() => {
+    rowsByNumber.current = new Map();
+    setRows([]);
+    setJob(null);
+    setError(null);
+
+    const source = new EventSource(`/api/jobs/${jobId}/events`);
+    let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      flushTimer = null;
+      setRows([...rowsByNumber.current.values()].sort((a, b) => a.row - b.row));
+    };
+    const addRows = (incoming: JobRow[]) => {
+      incoming.forEach(r => rowsByNumber.current.set(r.row, r));
+      if (!flushTimer) flushTimer = setTimeout(flush, FLUSH_MS);
+    };
+    const update = (next: BatchJob) => {
+      setJob(next);
+      // A finished job's stream ends; closing stops EventSource reconnecting
+      if (FINISHED.includes(next.status)) source.close();
+    };
+
+    source.addEventListener('snapshot', e => {
+      const data: { job: BatchJob; rows: JobRow[] } = JSON.parse((e as MessageEvent).data);
+      addRows(data.rows);
+      update(data.job);
+    });
+    source.addEventListener('progress', e => {
+      const data: { job: BatchJob; rows: JobRow[] } = JSON.parse((e as MessageEvent).data);
+      addRows(data.rows);
+      update(data.job);
+    });
+    source.addEventListener('status', e => {
+      const data: { job: BatchJob } = JSON.parse((e as MessageEvent).data);
+      update(data.job);
+    });
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        setError('Lost connection to the batch job');
+      }
+    };
+
+    return () => {
+      source.close();
+      if (flushTimer) clearTimeout(flushTimer);
+    };
+  }, [jobId]);
+
+  const control = async (action: 'pause' | 'resume' | 'cancel') => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/jobs/${jobId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Request failed');
+      }
+    } catch (err) {
+      console.error('Batch job control failed:', err);
+      alert(err instanceof Error ? err.message : 'Request failed');
+    }
+    setBusy(false);
+  };
+
+  const identities = useMemo(() => clusterIdentities(rows), [rows]);
+
+  if (!job) {
+    return (
+      <div className="mt-6 text-center text-blue-500 font-medium animate-pulse">
+        {error || 'Starting batch job...'}
+      </div>
+    );
+  }
+
+  const percent = job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+  const hasReferences = rows.some(r => r.reference);
+
+  return (
+    <div className="mt-6">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h2 className="text-xl font-bold">Batch Results</h2>
+          <p className="text-xs text-gray-500">
+            {job.name} • {new Date(job.createdAt).toLocaleString()} • by {job.createdBy}
+          </p>
+        </div>
+        <span className={`text-xs px-2 py-1 rounded font-medium ${STATUS_STYLES[job.status]}`}>
+          {job.status}
+        </span>
+      </div>
+
+      <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden">
+        <div
+          className={`h-3 transition-all ${job.status === 'failed' ? 'bg-red-500' : 'bg-green-500'}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="mt-1 text-sm text-gray-600">
+        {job.processed} of {job.total} rows ({percent}%)
+        {Object.entries(job.counts).map(([status, count]) => (
+          <span key={status} className="ml-3">{status}: {count}</span>
+        ))}
+        {(job.duplicates ?? 0) > 0 && <span className="ml-3">Duplicates: {job.duplicates}</span>}
+      </p>
+
+      {job.forensic && (
+        <div className="mt-3 bg-purple-50 border-l-4 border-purple-400 p-3 text-sm text-purple-800">
+          🔒 Forensic batch for case{' '}
+          <Link href={`/cases/${encodeURIComponent(job.forensic.caseId)}`} className="underline font-medium">
+            {job.forensic.caseId}
+          </Link>
+          : each verified row is sealed into its own report.
+          {job.forensic.manifestReportId ? (
+            <div className="mt-1">
+              Manifest report {job.forensic.manifestReportId}
+              <span className="block font-mono text-xs break-all">SHA-256 {job.forensic.manifestHash}</span>
+              <a href={`/api/jobs/${jobId}/manifest`} className="underline">📥 Download manifest</a>
+            </div>
+          ) : (
+            !FINISHED.includes(job.status) && <div className="mt-1">The manifest is sealed when the job finishes.</div>
+          )}
+        </div>
+      )}
+      {job.error && (
+        <div className="mt-3 bg-red-50 border-l-4 border-red-400 p-3 text-sm text-red-800">{job.error}</div>
+      )}
+      {error && !FINISHED.includes(job.status) && (
+        <div className="mt-3 bg-yellow-50 border-l-4 border-yellow-400 p-3 text-sm text-yellow-800">{error}</div>
+      )}
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        {(job.status === 'queued' || job.status === 'running') && (
+          <button
+            onClick={() => control('pause')}
+            disabled={busy}
+            className="text-sm px-3 py-1 bg-yellow-500 text-white rounded hover:bg-yellow-600 disabled:bg-gray-300"
+          >
+            ⏸ Pause
+          </button>
+        )}
+        {job.status === 'paused' && (
+          <button
+            onClick={() => control('resume')}
+            disabled={busy}
+            className="text-sm px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+          >
+            ▶ Resume
+          </button>
+        )}
+        {!FINISHED.includes(job.status) && (
+          <button
+            onClick={() => {
+              if (confirm(`Cancel batch job "${job.name}"? Rows already checked are kept.`)) {
+                control('cancel');
+              }
+            }}
+            disabled={busy}
+            className="text-sm px-3 py-1 border border-red-300 text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        )}
+        {onClose && (
+          <button
+            onClick={onClose}
+            className="text-sm px-3 py-1 border rounded hover:bg-gray-50"
+          >
+            Close
+          </button>
+        )}
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="flex gap-2 mt-4 text-sm">
+            <button
+              onClick={() => setView('rows')}
+              className={`px-3 py-1 rounded border ${view === 'rows' ? 'bg-gray-800 text-white' : 'hover:bg-gray-50'}`}
+            >
+              By row
+            </button>
+            <button
+              onClick={() => setView('accounts')}
+              className={`px-3 py-1 rounded border ${view === 'accounts' ? 'bg-gray-800 text-white' : 'hover:bg-gray-50'}`}
+            >
+              By account ({identities.length})
+            </button>
+          </div>
+
+          {view === 'accounts' ? (
+            <table className="w-full border-collapse border mt-2">
+              <thead>
+                <tr className="bg-gray-200">
+                  <th className="p-3 text-left border-b">Account</th>
+                  <th className="p-3 text-left border-b">Rows</th>
+                  <th className="p-3 text-left border-b">Inputs</th>
+                  {hasReferences && <th className="p-3 text-left border-b">References</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {identities.slice(0, MAX_VISIBLE_ROWS).map(identity => (
+                  <tr key={identity.user.id} className="hover:bg-gray-50 align-top">
+                    <td className="p-3 border-b">
+                      <div className="font-medium">@{identity.user.name}</div>
+                      <div className="text-xs text-gray-500">{identity.user.displayName} • ID {identity.user.id}</div>
+                    </td>
+                    <td className={`p-3 border-b ${identity.rows.length > 1 ? 'text-orange-600 font-medium' : ''}`}>
+                      {identity.rows.length}
+                    </td>
+                    <td className="p-3 border-b text-sm">
+                      {identity.inputs.map(input => <div key={input}>{input}</div>)}
+                    </td>
+                    {hasReferences && <td className="p-3 border-b text-sm">{identity.references.join(', ')}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full border-collapse border mt-2">
+              <thead>
+                <tr className="bg-gray-200">
+                  {hasReferences && <th className="p-3 text-left border-b">Reference</th>}
+                  <th className="p-3 text-left border-b">Input</th>
+                  <th className="p-3 text-left border-b">Status</th>
+                  <th className="p-3 text-left border-b">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, MAX_VISIBLE_ROWS).map(out => (
+                  <tr key={out.row} className="hover:bg-gray-50">
+                    {hasReferences && <td className="p-3 border-b">{out.reference}</td>}
+                    <td className="p-3 border-b">{out.input}</td>
+                    <td className={`p-3 border-b ${out.status === 'Rate Limited' ? 'text-yellow-700 font-medium' : ''}`}>
+                      {out.status}
+                      {out.report && <span className="ml-1" title={`Report ${out.report.reportId}`}>🔒</span>}
+                      {out.reportError && (
+                        <span className="ml-1 text-red-600" title={out.reportError}>⚠ not sealed</span>
+                      )}
+                    </td>
+                    <td className="p-3 border-b">{out.details}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {rows.length > MAX_VISIBLE_ROWS && (
+            <p className="mt-2 text-sm text-gray-500">
+              Showing the first {MAX_VISIBLE_ROWS} of {rows.length} rows; export the results for all of them.
+            </p>
+          )}
+          <div className="mt-4 flex flex-wrap gap-2">
+            {EXPORT_FORMATS.map(format => (
+              <a
+                key={format}
+                href={`/api/jobs/${jobId}/results?format=${format}`}
+                className="inline-block rounded-md bg-green-500 p-3 text-white font-medium hover:bg-green-600 transition"
+              >
+                📥 Export {format.toUpperCase()}
+              </a>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+// FILE: src/app/components/BatchJobs.tsx
+// Batch jobs - List of server-side batch jobs with controls and downloads
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import BatchJobProgress from './BatchJobProgress';
+
+interface BatchJob {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  finishedAt?: string;
+  status: 'queued' | 'running' | 'paused' | 'cancelled' | 'completed' | 'failed';
+  total: number;
+  processed: number;
+  counts: Record<string, number>;
+  duplicates?: number;
+  forensic?: {
+    caseId: string;
+    manifestReportId?: string;
+  };
+}
+
+// The list refreshes this often while any job is still going
+const POLL_MS = 5000;
+
+const EXPORT_FORMATS = ['csv', 'xlsx', 'json', 'ndjson'];
+
+const STATUS_STYLES: Record<BatchJob['status'], string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  paused: 'bg-yellow-100 text-yellow-800',
+  cancelled: 'bg-gray-200 text-gray-600',
+  completed: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export default function BatchJobs() {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [openJobId, setOpenJobId] = useState<string | null>(null);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/jobs');
+      if (!response.ok) {
+        throw new Error('Failed to fetch batch jobs');
+      }
+      setJobs((await response.json()).jobs);
+      setError(null);
+    } catch (err) {
+      console.error('Failed to fetch batch jobs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch batch jobs');
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const active = jobs.some(j => j.status === 'queued' || j.status === 'running');
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(fetchJobs, POLL_MS);
+    return () => clearInterval(timer);
+  }, [active, fetchJobs]);
+
+  const control = async (id: string, action: 'pause' | 'resume' | 'cancel') => {
+    setBusy(id);
+    try {
+      const response = await fetch(`/api/jobs/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Request failed');
+      }
+      await fetchJobs();
+    } catch (err) {
+      console.error('Batch job control failed:', err);
+      alert(err instanceof Error ? err.message : 'Request failed');
+    }
+    setBusy(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="mb-4">
+          <h2 className="text-2xl font-bold text-gray-800">Batch Jobs</h2>
+          <p className="text-sm text-gray-600">
+            CSV uploads run on the server; results stay available here after the tab is closed
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-4 text-sm text-red-800">{error}</div>
+        )}
+
+        {jobs.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <div className="text-6xl mb-4">🗂️</div>
+            <p>No batch jobs yet. Upload a CSV on the verifier page to start one.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="px-4 py-3 text-left">Job</th>
+                  <th className="px-4 py-3 text-left">Status</th>
+                  <th className="px-4 py-3 text-left">Progress</th>
+                  <th className="px-4 py-3 text-left">Results</th>
+                  <th className="px-4 py-3 text-left">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map(j => (
+                  <tr key={j.id} className="border-b hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <p className="font-medium">{j.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(j.createdAt).toLocaleString()} • by {j.createdBy}
+                      </p>
+                      {j.forensic && (
+                        <p className="text-xs text-purple-700">🔒 Forensic • case {j.forensic.caseId}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`text-xs px-2 py-1 rounded font-medium ${STATUS_STYLES[j.status]}`}>
+                        {j.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {j.processed} / {j.total}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-600">
+                      {Object.entries(j.counts).map(([status, count]) => (
+                        <div key={status}>{status}: {count}</div>
+                      ))}
+                      {(j.duplicates ?? 0) > 0 && <div>Duplicates: {j.duplicates}</div>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-wrap gap-2">
+                        <button
+                          onClick={() => setOpenJobId(openJobId === j.id ? null : j.id)}
+                          className="text-xs px-2 py-1 border rounded hover:bg-white"
+                        >
+                          {openJobId === j.id ? 'Hide' : 'View'}
+                        </button>
+                        {(j.status === 'queued' || j.status === 'running') && (
+                          <button
+                            onClick={() => control(j.id, 'pause')}
+                            disabled={busy !== null}
+                            className="text-xs px-2 py-1 border rounded hover:bg-white disabled:opacity-50"
+                          >
+                            ⏸ Pause
+                          </button>
+                        )}
+                        {j.status === 'paused' && (
+                          <button
+                            onClick={() => control(j.id, 'resume')}
+                            disabled={busy !== null}
+                            className="text-xs px-2 py-1 border rounded hover:bg-white disabled:opacity-50"
+                          >
+                            ▶ Resume
+                          </button>
+                        )}
+                        {(j.status === 'queued' || j.status === 'running' || j.status === 'paused') && (
+                          <button
+                            onClick={() => {
+                              if (confirm(`Cancel batch job "${j.name}"? Rows already checked are kept.`)) {
+                                control(j.id, 'cancel');
+                              }
+                            }}
+                            disabled={busy !== null}
+                            className="text-xs px-2 py-1 border border-red-300 text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                        {j.processed > 0 && EXPORT_FORMATS.map(format => (
+                          <a
+                            key={format}
+                            href={`/api/jobs/${j.id}/results?format=${format}`}
+                            className="text-xs px-2 py-1 border border-green-300 text-green-700 rounded hover:bg-green-50"
+                          >
+                            📥 {format.toUpperCase()}
+                          </a>
+                        ))}
+                        {j.forensic?.manifestReportId && (
+                          <a
+                            href={`/api/jobs/${j.id}/manifest`}
+                            className="text-xs px-2 py-1 border border-purple-300 text-purple-700 rounded hover:bg-purple-50"
+                          >
+                            🔒 Manifest
+                          </a>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {openJobId && (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <BatchJobProgress jobId={openJobId} onClose={() => setOpenJobId(null)} />
+        </div>
+      )}
+    </div>
+  );
+}
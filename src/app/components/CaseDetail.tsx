@@ -0,0 +1,340 @@
+// FILE: src/app/components/CaseDetail.tsx
+// Case Management - Case page: subjects, linked reports, searches, notes and actions
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+interface CaseDetailData {
+  caseId: string;
+  title: string;
+  description: string;
+  status: 'open' | 'closed';
+  createdBy: string;
+  createdAt: string;
+  closedBy?: string;
+  closedAt?: string;
+  assignees: string[];
+  subjects: Array<{
+    userId: string;
+    username: string;
+    displayName: string;
+    attachedBy: string;
+    attachedAt: string;
+  }>;
+  searches: Array<{
+    input: string;
+    mode: string;
+    resultUserId?: string;
+    searchedBy: string;
+    searchedAt: string;
+  }>;
+  notes: Array<{
+    id: string;
+    author: string;
+    text: string;
+    createdAt: string;
+  }>;
+  reports: Array<{
+    reportId: string;
+    createdBy: string;
+    createdAt: string;
+    queryInput: string;
+    queryMode: string;
+    resultUserId?: string;
+    snapshotHash: string;
+    exportFormat?: string;
+  }>;
+}
+
+interface CaseDetailProps {
+  caseId: string;
+}
+
+export default function CaseDetail({ caseId }: CaseDetailProps) {
+  const [data, setData] = useState<CaseDetailData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState('');
+  const [analyst, setAnalyst] = useState('');
+  const [subjectId, setSubjectId] = useState('');
+
+  const fetchCase = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/cases/${encodeURIComponent(caseId)}`);
+      if (!response.ok) {
+        throw new Error(response.status === 404 ? 'Case not found' : 'Failed to fetch case');
+      }
+      setData(await response.json());
+    } catch (err) {
+      console.error('Failed to fetch case:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch case');
+    }
+    setLoading(false);
+  }, [caseId]);
+
+  useEffect(() => {
+    fetchCase();
+  }, [fetchCase]);
+
+  const runAction = async (body: Record<string, unknown>): Promise<boolean> => {
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/cases/${encodeURIComponent(caseId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Case update failed');
+      }
+      await fetchCase();
+      setBusy(false);
+      return true;
+    } catch (err) {
+      console.error('Case update failed:', err);
+      alert(err instanceof Error ? err.message : 'Case update failed');
+      setBusy(false);
+      return false;
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="bg-red-50 border-l-4 border-red-400 p-4 text-sm text-red-800">
+          {error || 'Case not found'}
+        </div>
+      </div>
+    );
+  }
+
+  const isOpen = data.status === 'open';
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-start">
+        <div>
+          <div className="flex items-center gap-3">
+            <code className="text-sm bg-gray-100 px-2 py-1 rounded">{data.caseId}</code>
+            <span
+              className={`text-xs px-2 py-1 rounded ${
+                isOpen ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+              }`}
+            >
+              {data.status}
+            </span>
+          </div>
+          <h2 className="text-2xl font-bold text-gray-800 mt-2">{data.title}</h2>
+          {data.description && <p className="text-sm text-gray-600 mt-1">{data.description}</p>}
+          <p className="text-xs text-gray-500 mt-2">
+            Opened by {data.createdBy} on {new Date(data.createdAt).toLocaleString()}
+            {data.closedAt && <> • Closed by {data.closedBy} on {new Date(data.closedAt).toLocaleString()}</>}
+          </p>
+        </div>
+        <button
+          onClick={() => runAction({ action: isOpen ? 'close' : 'reopen' })}
+          disabled={busy}
+          className={`px-4 py-2 text-white rounded-lg disabled:bg-gray-300 transition ${
+            isOpen ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600'
+          }`}
+        >
+          {isOpen ? 'Close Case' : 'Reopen Case'}
+        </button>
+      </div>
+
+      {/* Analysts */}
+      <div>
+        <h3 className="font-bold text-lg mb-2">Assigned Analysts</h3>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {data.assignees.length === 0 && <span className="text-sm text-gray-500">Nobody assigned</span>}
+          {data.assignees.map(a => (
+            <span key={a} className="text-sm bg-blue-100 text-blue-800 px-2 py-1 rounded flex items-center gap-1">
+              {a}
+              {isOpen && (
+                <button
+                  onClick={() => runAction({ action: 'unassign', analyst: a })}
+                  disabled={busy}
+                  className="text-blue-600 hover:text-red-600"
+                  title="Unassign"
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+        {isOpen && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Analyst email..."
+              value={analyst}
+              onChange={(e) => setAnalyst(e.target.value)}
+              className="flex-1 px-3 py-2 border rounded-lg text-sm"
+            />
+            <button
+              onClick={async () => {
+                if (await runAction({ action: 'assign', analyst })) setAnalyst('');
+              }}
+              disabled={busy || !analyst.trim()}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition text-sm"
+            >
+              Assign
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Subjects */}
+      <div>
+        <h3 className="font-bold text-lg mb-2">Verified Roblox Accounts</h3>
+        {data.subjects.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-3">No accounts attached</p>
+        ) : (
+          <ul className="space-y-1 mb-3">
+            {data.subjects.map(s => (
+              <li key={s.userId} className="text-sm">
+                <span className="font-medium">@{s.username}</span>{' '}
+                <span className="text-gray-600">({s.displayName}, ID {s.userId})</span>{' '}
+                <span className="text-xs text-gray-400">
+                  attached by {s.attachedBy}, {new Date(s.attachedAt).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        {isOpen && (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              placeholder="Roblox user ID..."
+              value={subjectId}
+              onChange={(e) => setSubjectId(e.target.value)}
+              className="flex-1 px-3 py-2 border rounded-lg text-sm"
+            />
+            <button
+              onClick={async () => {
+                if (await runAction({ action: 'attachUser', userId: subjectId.trim() })) setSubjectId('');
+              }}
+              disabled={busy || !/^\d+$/.test(subjectId.trim())}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition text-sm"
+            >
+              Verify &amp; Attach
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Reports */}
+      <div>
+        <h3 className="font-bold text-lg mb-2">Forensic Reports</h3>
+        {data.reports.length === 0 ? (
+          <p className="text-sm text-gray-500">No reports linked</p>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b-2 border-gray-200 text-left">
+                <th className="pb-2 px-2 text-sm font-semibold text-gray-600">Generated</th>
+                <th className="pb-2 px-2 text-sm font-semibold text-gray-600">Report ID</th>
+                <th className="pb-2 px-2 text-sm font-semibold text-gray-600">Query</th>
+                <th className="pb-2 px-2 text-sm font-semibold text-gray-600">Format</th>
+                <th className="pb-2 px-2 text-sm font-semibold text-gray-600">Hash</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.reports.map(r => (
+                <tr key={r.reportId} className="border-b border-gray-100">
+                  <td className="py-2 px-2 text-sm">{new Date(r.createdAt).toLocaleString()}</td>
+                  <td className="py-2 px-2"><code className="text-xs">{r.reportId}</code></td>
+                  <td className="py-2 px-2 text-sm">
+                    <span className="font-mono">{r.queryInput}</span>
+                    <span className="ml-2 text-xs text-gray-500">({r.queryMode})</span>
+                  </td>
+                  <td className="py-2 px-2 text-sm">{r.exportFormat || '—'}</td>
+                  <td className="py-2 px-2">
+                    <code className="text-xs text-gray-600" title={r.snapshotHash}>
+                      {r.snapshotHash.substring(0, 8)}...
+                    </code>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Searches */}
+      <div>
+        <h3 className="font-bold text-lg mb-2">Searches</h3>
+        {data.searches.length === 0 ? (
+          <p className="text-sm text-gray-500">No searches recorded</p>
+        ) : (
+          <ul className="space-y-1">
+            {[...data.searches].reverse().map((s, idx) => (
+              <li key={idx} className="text-sm">
+                <span className="font-mono">{s.input}</span>{' '}
+                <span className="text-xs text-gray-500">({s.mode})</span>
+                {s.resultUserId && <span className="text-xs text-green-700"> → User {s.resultUserId}</span>}
+                <span className="text-xs text-gray-400">
+                  {' '}• {s.searchedBy}, {new Date(s.searchedAt).toLocaleString()}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Notes */}
+      <div>
+        <h3 className="font-bold text-lg mb-2">Notes</h3>
+        <div className="space-y-3 mb-3">
+          {data.notes.length === 0 && <p className="text-sm text-gray-500">No notes yet</p>}
+          {data.notes.map(n => (
+            <div key={n.id} className="bg-gray-50 p-3 rounded-lg">
+              <p className="text-sm whitespace-pre-wrap">{n.text}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {n.author} • {new Date(n.createdAt).toLocaleString()}
+              </p>
+            </div>
+          ))}
+        </div>
+        {isOpen && (
+          <div className="space-y-2">
+            <textarea
+              placeholder="Add a note..."
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg text-sm"
+              rows={3}
+            />
+            <button
+              onClick={async () => {
+                if (await runAction({ action: 'note', text: note })) setNote('');
+              }}
+              disabled={busy || !note.trim()}
+              className="px-4 py-2 bg-purple-500 text-white rounded-lg hover:bg-purple-600 disabled:bg-gray-300 transition text-sm"
+            >
+              Add Note
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+// FILE: src/app/components/CaseList.tsx
+// Case Management - Case list and new case form
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+
+interface CaseSummary {
+  caseId: string;
+  title: string;
+  description: string;
+  status: 'open' | 'closed';
+  createdBy: string;
+  createdAt: string;
+  closedAt?: string;
+  assignees: string[];
+  subjectCount: number;
+  reportCount: number;
+  noteCount: number;
+}
+
+type StatusFilter = 'open' | 'closed' | 'all';
+
+export default function CaseList() {
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [showForm, setShowForm] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [form, setForm] = useState({ title: '', description: '', assignees: '' });
+
+  const fetchCases = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const query = statusFilter === 'all' ? '' : `?status=${statusFilter}`;
+      const response = await fetch(`/api/cases${query}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch cases');
+      }
+      const data: { cases: CaseSummary[] } = await response.json();
+      setCases(data.cases);
+    } catch (err) {
+      console.error('Failed to fetch cases:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch cases');
+      setCases([]);
+    }
+    setLoading(false);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchCases();
+  }, [fetchCases]);
+
+  const createCase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.title.trim()) return;
+
+    setCreating(true);
+    try {
+      const response = await fetch('/api/cases', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: form.title,
+          description: form.description,
+          assignees: form.assignees.split(',').map(a => a.trim()).filter(Boolean),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to create case');
+      }
+      setForm({ title: '', description: '', assignees: '' });
+      setShowForm(false);
+      fetchCases();
+    } catch (err) {
+      console.error('Case creation failed:', err);
+      alert('Failed to create case. Please try again.');
+    }
+    setCreating(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-800">Cases</h2>
+          <p className="text-sm text-gray-600">Investigations, their subjects and evidence</p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition"
+        >
+          {showForm ? 'Cancel' : '➕ New Case'}
+        </button>
+      </div>
+
+      {/* New Case Form */}
+      {showForm && (
+        <form onSubmit={createCase} className="bg-gray-50 p-4 rounded-lg mb-6 space-y-3">
+          <input
+            type="text"
+            placeholder="Case title"
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+            required
+          />
+          <textarea
+            placeholder="Description (optional)"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+            rows={3}
+          />
+          <input
+            type="text"
+            placeholder="Assign analysts (comma-separated emails; you are assigned automatically)"
+            value={form.assignees}
+            onChange={(e) => setForm({ ...form, assignees: e.target.value })}
+            className="w-full px-3 py-2 border rounded-lg text-sm"
+          />
+          <button
+            type="submit"
+            disabled={creating || !form.title.trim()}
+            className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-300 transition text-sm"
+          >
+            {creating ? 'Creating...' : 'Open Case'}
+          </button>
+        </form>
+      )}
+
+      {/* Status Filter */}
+      <div className="flex gap-2 mb-4">
+        {(['open', 'closed', 'all'] as StatusFilter[]).map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(status)}
+            className={`px-3 py-1 rounded-full text-sm capitalize ${
+              statusFilter === status ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {status}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-6 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      {/* Case Table */}
+      {loading ? (
+        <div className="animate-pulse h-32 bg-gray-200 rounded"></div>
+      ) : cases.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <div className="text-6xl mb-4">📁</div>
+          <p>No cases found</p>
+        </div>
+      ) : (
+        <table className="w-full">
+          <thead>
+            <tr className="border-b-2 border-gray-200 text-left">
+              <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Case</th>
+              <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Status</th>
+              <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Assigned</th>
+              <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Subjects</th>
+              <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Reports</th>
+              <th className="pb-3 px-3 text-sm font-semibold text-gray-600">Opened</th>
+            </tr>
+          </thead>
+          <tbody>
+            {cases.map(c => (
+              <tr key={c.caseId} className="border-b border-gray-100 hover:bg-gray-50">
+                <td className="py-3 px-3">
+                  <Link href={`/cases/${encodeURIComponent(c.caseId)}`} className="text-blue-600 hover:text-blue-800">
+                    <code className="text-xs bg-gray-100 px-2 py-1 rounded mr-2">{c.caseId}</code>
+                    {c.title}
+                  </Link>
+                </td>
+                <td className="py-3 px-3">
+                  <span
+                    className={`text-xs px-2 py-1 rounded ${
+                      c.status === 'open' ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    {c.status}
+                  </span>
+                </td>
+                <td className="py-3 px-3 text-sm">{c.assignees.join(', ') || '—'}</td>
+                <td className="py-3 px-3 text-sm">{c.subjectCount}</td>
+                <td className="py-3 px-3 text-sm">{c.reportCount}</td>
+                <td className="py-3 px-3 text-sm">{new Date(c.createdAt).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+// FILE: src/app/components/CsvColumnMapper.tsx
+// Batch Upload - Pick the identifier, reference and hint columns of an uploaded CSV
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import { normalizeInput } from '../lib/input';
+
+export interface MappedRow {
+  input: string;
+  reference?: string;
+  hints?: {
+    keywords?: string[];
+    groupIds?: string[];
+  };
+}
+
+interface CsvColumnMapperProps {
+  fileName: string;
+  rows: string[][];
+  onStart: (rows: MappedRow[], options: { profileDetails: boolean }) => void;
+  onCancel: () => void;
+  starting?: boolean;
+  // Set when Forensic Mode is on; empty until a case is picked
+  forensicCaseId?: string;
+}
+
+interface ColumnMapping {
+  hasHeader: boolean;
+  identifier: number;
+  reference: number;
+  keywords: number;
+  group: number;
+}
+
+// -1 means the column is not used
+const NONE = -1;
+const PREVIEW_ROWS = 5;
+
+const HEADER_PATTERNS = {
+  identifier: /^(roblox[ _-]?)?(user(name)?|user[ _-]?id|id|display[ _-]?name|name|profile([ _-]?url)?|url|link|account)$/i,
+  reference: /^(ticket([ _#-].*)?|ref(erence)?|case([ _-]?id)?|report(er|ed[ _-]?by)?|source)$/i,
+  keywords: /^(keywords?|tags?)$/i,
+  group: /^(expected[ _-]?)?group([ _-]?(id|name))?$/i,
+};
+
+function looksLikeIdentifier(cell: string): boolean {
+  const type = normalizeInput(cell).type;
+  return type === 'username' || type === 'userId' || type === 'url';
+}
+
+/**
+ * A first row is a header when one of its cells names a column we know,
+ * or when it is the only non-identifier in an otherwise identifier column
+ */
+function detectHeader(rows: string[][]): boolean {
+  if (rows.length < 2) return false;
+  const [first, ...rest] = rows;
+  if (first.some(cell => Object.values(HEADER_PATTERNS).some(p => p.test(cell.trim())))) {
+    return true;
+  }
+  return first.some((cell, col) => {
+    const below = rest.slice(0, 20).map(r => r[col] || '').filter(Boolean);
+    return /\s/.test(cell.trim()) && below.length > 0 && below.every(looksLikeIdentifier);
+  });
+}
+
+/**
+ * Guess each column from header names, falling back to the column whose
+ * values look most like usernames, IDs or profile URLs
+ */
+function guessMapping(rows: string[][], hasHeader: boolean): ColumnMapping {
+  const header = hasHeader ? rows[0].map(h => h.trim()) : [];
+  const find = (pattern: RegExp, exclude: number[] = []) =>
+    header.findIndex((h, col) => !exclude.includes(col) && pattern.test(h));
+
+  let identifier = find(HEADER_PATTERNS.identifier);
+  if (identifier === NONE) {
+    const data = rows.slice(hasHeader ? 1 : 0, 50);
+    const width = Math.max(0, ...rows.map(r => r.length));
+    let best = 0;
+    identifier = 0;
+    for (let col = 0; col < width; col++) {
+      const hits = data.filter(r => looksLikeIdentifier(r[col] || '')).length;
+      if (hits > best) {
+        best = hits;
+        identifier = col;
+      }
+    }
+  }
+
+  return {
+    hasHeader,
+    identifier,
+    reference: find(HEADER_PATTERNS.reference, [identifier]),
+    keywords: find(HEADER_PATTERNS.keywords, [identifier]),
+    group: find(HEADER_PATTERNS.group, [identifier]),
+  };
+}
+
+function splitList(cell: string | undefined): string[] | undefined {
+  const list = (cell || '').split(/[;,|]/).map(v => v.trim()).filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+export default function CsvColumnMapper({
+  fileName,
+  rows,
+  onStart,
+  onCancel,
+  starting,
+  forensicCaseId,
+}: CsvColumnMapperProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessMapping(rows, detectHeader(rows)));
+  const [profileDetails, setProfileDetails] = useState(true);
+
+  const width = Math.max(0, ...rows.map(r => r.length));
+  const columnNames = Array.from({ length: width }, (_, col) =>
+    mapping.hasHeader && rows[0][col]?.trim() ? rows[0][col].trim() : `Column ${col + 1}`
+  );
+
+  const mapped = useMemo<MappedRow[]>(() => {
+    const data = mapping.hasHeader ? rows.slice(1) : rows;
+    return data
+      .map(r => {
+        const keywords = mapping.keywords === NONE ? undefined : splitList(r[mapping.keywords]);
+        const groupIds = mapping.group === NONE ? undefined : splitList(r[mapping.group]);
+        const reference = mapping.reference === NONE ? '' : (r[mapping.reference] || '').trim();
+        return {
+          input: (r[mapping.identifier] || '').trim(),
+          ...(reference && { reference }),
+          ...((keywords || groupIds) && { hints: { keywords, groupIds } }),
+        };
+      })
+      .filter(r => r.input || r.reference);
+  }, [rows, mapping]);
+
+  const columnSelect = (label: string, key: keyof Omit<ColumnMapping, 'hasHeader'>, optional: boolean) => (
+    <label className="text-sm text-gray-700">
+      {label}
+      <select
+        value={mapping[key]}
+        onChange={(e) => setMapping({ ...mapping, [key]: Number(e.target.value) })}
+        className="mt-1 block w-full px-3 py-2 border rounded-lg text-sm"
+      >
+        {optional && <option value={NONE}>(none)</option>}
+        {columnNames.map((name, col) => (
+          <option key={col} value={col}>{name}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="mt-6 rounded-lg border border-blue-200 bg-blue-50 p-4">
+      <h2 className="text-lg font-bold text-gray-800">Map columns</h2>
+      <p className="text-xs text-gray-600 mb-3">
+        {fileName} • {rows.length} line(s). Choose which column holds the username, ID or profile URL.
+      </p>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={mapping.hasHeader}
+          onChange={(e) => setMapping(guessMapping(rows, e.target.checked))}
+        />
+        First row is a header
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+        {columnSelect('Identifier', 'identifier', false)}
+        {columnSelect('Reference (ticket, reporter)', 'reference', true)}
+        {columnSelect('Keywords hint', 'keywords', true)}
+        {columnSelect('Expected group (ID or name)', 'group', true)}
+      </div>
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-sm bg-white border">
+          <thead className="bg-gray-100">
+            <tr>
+              <th className="px-3 py-2 text-left">Identifier</th>
+              <th className="px-3 py-2 text-left">Reference</th>
+              <th className="px-3 py-2 text-left">Keywords</th>
+              <th className="px-3 py-2 text-left">Expected group</th>
+            </tr>
+          </thead>
+          <tbody>
+            {mapped.slice(0, PREVIEW_ROWS).map((r, idx) => (
+              <tr key={idx} className="border-t">
+                <td className={`px-3 py-2 ${normalizeInput(r.input).type === 'invalid' ? 'text-red-600' : ''}`}>
+                  {r.input || '(empty)'}
+                </td>
+                <td className="px-3 py-2">{r.reference}</td>
+                <td className="px-3 py-2">{r.hints?.keywords?.join(', ')}</td>
+                <td className="px-3 py-2">{r.hints?.groupIds?.join(', ')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={profileDetails}
+          onChange={(e) => setProfileDetails(e.target.checked)}
+        />
+        Fetch created date and ban status for exports (one extra lookup per verified account)
+      </label>
+
+      {forensicCaseId !== undefined && (
+        <div className="mb-3 bg-purple-50 border-l-4 border-purple-400 p-3 text-sm text-purple-800">
+          {forensicCaseId
+            ? `🔒 Forensic batch: every verified row is captured live and sealed into its own report on case ${forensicCaseId}, with a manifest report over all of them when the job finishes.`
+            : '🔒 Forensic Mode is on: pick a case before starting, so the sealed reports have somewhere to go.'}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onStart(mapped, { profileDetails })}
+          disabled={starting || mapped.length === 0}
+          className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-300 transition text-sm"
+        >
+          {starting ? 'Starting...' : `▶ Verify ${mapped.length} row(s)`}
+        </button>
+        <button
+          onClick={onCancel}
+          disabled={starting}
+          className="px-4 py-2 border rounded-lg hover:bg-white disabled:opacity-50 text-sm"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
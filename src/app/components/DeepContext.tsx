@@ -40,6 +40,43 @@ interface ProfileData {
   };
 }
 
+interface HistoryEntry {
+  kind: 'firstSeen' | 'username' | 'displayName' | 'bio' | 'banned' | 'group';
+  summary: string;
+  source: 'observed' | 'roblox';
+  observedAt?: string;
+  notBefore?: string;
+}
+
+interface PastName {
+  name: string;
+  sources: Array<'observed' | 'roblox'>;
+  firstObservedAt?: string;
+  lastObservedAt?: string;
+}
+
+interface ProfileHistory {
+  snapshotCount: number;
+  firstObservedAt?: string;
+  pastUsernames: PastName[];
+  pastDisplayNames: PastName[];
+  entries: HistoryEntry[];
+}
+
+const HISTORY_ICONS: Record<HistoryEntry['kind'], string> = {
+  firstSeen: '📸',
+  username: '🏷️',
+  displayName: '✏️',
+  bio: '📝',
+  banned: '⛔',
+  group: '👥',
+};
+
+const SOURCE_LABELS: Record<HistoryEntry['source'], string> = {
+  observed: 'Observed by us',
+  roblox: 'Roblox username history',
+};
+
 interface DeepContextProps {
   userId: string;
   onClose: () => void;
@@ -47,6 +84,7 @@ interface DeepContextProps {
 
 export default function DeepContext({ userId, onClose }: DeepContextProps) {
   const [profile, setProfile] = useState<ProfileData | null>(null);
+  const [history, setHistory] = useState<ProfileHistory | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'overview' | 'groups' | 'activity' | 'flags'>('overview');
   const [showMentions, setShowMentions] = useState(false);
@@ -57,6 +95,12 @@ export default function DeepContext({ userId, onClose }: DeepContextProps) {
       const response = await fetch(`/api/profile/${userId}`);
       const data = await response.json();
       setProfile(data);
+
+      // After the profile, so the snapshot it just stored is included
+      const historyResponse = await fetch(`/api/profile/${userId}/history`);
+      if (historyResponse.ok) {
+        setHistory(await historyResponse.json());
+      }
     } catch (error) {
       console.error('Failed to fetch profile:', error);
     }
@@ -290,13 +334,70 @@ export default function DeepContext({ userId, onClose }: DeepContextProps) {
 
               {activeTab === 'activity' && (
                 <div className="space-y-4">
-                  <div className="bg-white p-6 rounded-lg shadow">
-                    <h4 className="font-bold text-lg mb-3">Recent Activity</h4>
-                    <p className="text-gray-500">Name change history not available via public API</p>
+                  <div className="grid grid-cols-2 gap-4">
+                    {([
+                      ['Past Usernames', history?.pastUsernames || []],
+                      ['Past Display Names', history?.pastDisplayNames || []],
+                    ] as Array<[string, PastName[]]>).map(([title, names]) => (
+                      <div key={title} className="bg-white p-4 rounded-lg shadow">
+                        <p className="text-sm text-gray-600 mb-2">{title}</p>
+                        {names.length === 0 ? (
+                          <p className="text-sm text-gray-500">None recorded</p>
+                        ) : (
+                          <ul className="space-y-1">
+                            {names.map(n => (
+                              <li key={n.name} className="text-sm">
+                                <span className="font-medium">{n.name}</span>
+                                {n.sources.map(source => (
+                                  <span
+                                    key={source}
+                                    className={`ml-2 text-xs px-2 py-0.5 rounded ${
+                                      source === 'roblox' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-700'
+                                    }`}
+                                    title={SOURCE_LABELS[source]}
+                                  >
+                                    {source}
+                                  </span>
+                                ))}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
                   </div>
+
                   <div className="bg-white p-6 rounded-lg shadow">
-                    <h4 className="font-bold text-lg mb-3">Last Online</h4>
-                    <p className="text-gray-500">Not available via public API</p>
+                    <h4 className="font-bold text-lg mb-1">History Timeline</h4>
+                    <p className="text-xs text-gray-500 mb-4">
+                      {history && history.snapshotCount > 0
+                        ? `${history.snapshotCount} snapshot(s) since ${new Date(history.firstObservedAt || '').toLocaleString()}. Observed changes happened between the previous snapshot and the one that recorded them.`
+                        : 'No snapshots stored yet'}
+                    </p>
+                    {!history || history.entries.length === 0 ? (
+                      <p className="text-gray-500">No history available</p>
+                    ) : (
+                      <ol className="border-l-2 border-gray-200 ml-2 space-y-4">
+                        {history.entries.map((entry, idx) => (
+                          <li key={idx} className="ml-4">
+                            <div className="flex items-start gap-2">
+                              <span>{HISTORY_ICONS[entry.kind]}</span>
+                              <div className="flex-1">
+                                <p className="text-sm">{entry.summary}</p>
+                                <p className="text-xs text-gray-500">
+                                  {entry.observedAt ? new Date(entry.observedAt).toLocaleString() : 'Date unknown'}
+                                  {entry.notBefore && <> (after {new Date(entry.notBefore).toLocaleString()})</>}
+                                  {' • '}
+                                  <span className={entry.source === 'roblox' ? 'text-blue-700' : 'text-gray-700'}>
+                                    {SOURCE_LABELS[entry.source]}
+                                  </span>
+                                </p>
+                              </div>
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                   </div>
                 </div>
               )}
@@ -3,14 +3,27 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { useSession } from 'next-auth/react';
+import {
+  DEFAULT_REDACTION_PROFILE,
+  REDACTION_PROFILES,
+  type RedactionProfileId,
+} from '../lib/redaction-profiles';
 
 interface ForensicModeProps {
   isEnabled: boolean;
   onToggle: (enabled: boolean) => void;
   currentSnapshot?: Record<string, unknown> | null;
   query?: { input: string; mode: 'userId' | 'username' | 'displayName' } | null;
+  caseId: string;
+  onCaseChange: (caseId: string) => void;
+}
+
+interface CaseSummary {
+  caseId: string;
+  title: string;
 }
 
 interface FieldSelector {
@@ -25,12 +38,15 @@ export default function ForensicMode({
   isEnabled, 
   onToggle, 
   currentSnapshot,
-  query 
+  query,
+  caseId,
+  onCaseChange,
 }: ForensicModeProps) {
   const { data: session } = useSession();
   const [generating, setGenerating] = useState(false);
   const [showFieldSelector, setShowFieldSelector] = useState(false);
-  const [caseId, setCaseId] = useState('');
+  const [openCases, setOpenCases] = useState<CaseSummary[]>([]);
+  const [redactionProfile, setRedactionProfile] = useState<RedactionProfileId>(DEFAULT_REDACTION_PROFILE);
   const [fieldSelector, setFieldSelector] = useState<FieldSelector>({
     user: true,
     counts: true,
@@ -39,22 +55,34 @@ export default function ForensicMode({
     history: true,
   });
 
-  const generateReport = async (format: 'json' | 'pdf') => {
-    if (!currentSnapshot || !query) {
+  useEffect(() => {
+    if (!isEnabled) return;
+    fetch('/api/cases?status=open')
+      .then(response => (response.ok ? response.json() : { cases: [] }))
+      .then(data => setOpenCases(data.cases || []))
+      .catch(error => console.error('Failed to fetch cases:', error));
+  }, [isEnabled]);
+
+  const generateReport = async (format: 'json' | 'pdf' | 'bundle') => {
+    const user = currentSnapshot?.user as { userId?: string } | undefined;
+    if (!user?.userId || !query) {
       alert('No data available to generate report');
       return;
     }
 
     setGenerating(true);
     try {
-      const response = await fetch('/api/forensic/report', {
+      const endpoint = format === 'bundle' ? '/api/forensic/bundle' : '/api/forensic/report';
+      const response = await fetch(endpoint, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        // The server re-fetches the profile itself so the evidence can't be altered client-side
         body: JSON.stringify({
-          snapshot: currentSnapshot,
+          userId: user.userId,
           query,
           caseId: caseId || undefined,
           fieldSelector,
+          redactionProfile,
           format,
         }),
       });
@@ -73,17 +101,15 @@ export default function ForensicMode({
         link.click();
         URL.revokeObjectURL(url);
       } else {
-        const html = await response.text();
-        const blob = new Blob([html], { type: 'text/html' });
-        const url = URL.createObjectURL(blob);
-      
-        // Open in new window for printing
-        const printWindow = window.open(url, '_blank');
-        if (printWindow) {
-          printWindow.onload = () => {
-            printWindow.print();
-          };
-        }
+        const file = await response.blob();
+        const reportId = response.headers.get('X-Report-Id') || 'report';
+        const url = URL.createObjectURL(file);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = format === 'bundle'
+          ? `evidence-bundle-${reportId}.zip`
+          : `forensic-report-${reportId}.pdf`;
+        link.click();
         URL.revokeObjectURL(url);
       }
 
@@ -133,18 +159,47 @@ export default function ForensicMode({
       {/* Forensic Controls */}
       {isEnabled && (
         <div className="border-t pt-4 mt-4 space-y-4">
-          {/* Case ID Input */}
+          {/* Case Selector */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Case ID (Optional)
+              Case (Optional)
             </label>
-            <input
-              type="text"
+            <select
               value={caseId}
-              onChange={(e) => setCaseId(e.target.value)}
-              placeholder="Enter case reference number..."
+              onChange={(e) => onCaseChange(e.target.value)}
               className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500"
-            />
+            >
+              <option value="">No case</option>
+              {openCases.map(c => (
+                <option key={c.caseId} value={c.caseId}>{c.caseId} — {c.title}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              Searches and reports are linked to the selected case.{' '}
+              <Link href="/cases" className="text-purple-600 hover:text-purple-800 underline">
+                Manage cases
+              </Link>
+            </p>
+          </div>
+
+          {/* Redaction Profile */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Redaction Profile
+            </label>
+            <select
+              value={redactionProfile}
+              onChange={(e) => setRedactionProfile(e.target.value as RedactionProfileId)}
+              className="w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500"
+            >
+              {Object.values(REDACTION_PROFILES).map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+              {REDACTION_PROFILES[redactionProfile].description}. The full
+              snapshot is always sealed server-side.
+            </p>
           </div>
 
           {/* Field Selector Toggle */}
@@ -214,13 +269,22 @@ export default function ForensicMode({
               )}
             </button>
           </div>
+          <button
+            onClick={() => generateReport('bundle')}
+            disabled={generating || !currentSnapshot}
+            className="w-full px-4 py-3 bg-gradient-to-r from-gray-700 to-gray-800 text-white rounded-lg hover:from-gray-800 hover:to-gray-900 disabled:from-gray-300 disabled:to-gray-400 transition font-medium shadow-md flex items-center justify-center gap-2"
+          >
+            {generating ? 'Generating...' : '🗂️ Download Evidence Bundle (ZIP)'}
+          </button>
 
           {/* Info Box */}
           <div className="bg-blue-50 border-l-4 border-blue-400 p-4 rounded">
             <p className="text-sm text-blue-800">
               <strong>📌 Forensic Mode Features:</strong>
               <br />• SHA-256 hash verification of all data
-              <br />• Timestamped evidence snapshots
+              <br />• Ed25519-signed reports (verify at <a href="/verify" className="underline">/verify</a>)
+              <br />• Timestamped evidence snapshots (RFC 3161 when a TSA is configured)
+              <br />• Evidence bundles with raw API responses and a signed manifest
               <br />• Chain-of-custody tracking
               <br />• Immutable audit logs
               <br />• Legal-defensible exports
@@ -0,0 +1,248 @@
+// FILE: src/app/components/ReportVerifier.tsx
+// Forensic Mode - Report upload and verification UI
+
+'use client';
+
+import { useState } from 'react';
+
+interface VerificationResult {
+  reportId: string;
+  valid: boolean;
+  integrity: boolean;
+  canonicalization: 'RFC8785-JCS' | 'legacy-top-level-keys';
+  capture: 'server' | 'client-unverified' | 'unknown';
+  signature: {
+    valid: boolean;
+    keyId?: string;
+    keyStatus?: 'active' | 'retired' | 'unknown';
+    reason?: string;
+  };
+  timestamp: {
+    valid: boolean;
+    tsa?: string;
+    genTime?: string;
+    reason?: string;
+  } | null;
+  redaction: {
+    profile: string;
+    consistent: boolean;
+    reason?: string;
+  } | null;
+  verifiedAt: string;
+}
+
+interface BundleVerificationResult {
+  valid: boolean;
+  reportId?: string;
+  manifestSignature: VerificationResult['signature'];
+  reportIntegrity: boolean;
+  files: Array<{
+    path: string;
+    ok: boolean;
+    reason?: string;
+  }>;
+  unlistedFiles: string[];
+  verifiedAt: string;
+}
+
+export default function ReportVerifier() {
+  const [verifying, setVerifying] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [bundleResult, setBundleResult] = useState<BundleVerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setVerifying(true);
+    setResult(null);
+    setBundleResult(null);
+    setError(null);
+    try {
+      const isBundle = file.name.toLowerCase().endsWith('.zip');
+      const response = await fetch(isBundle ? '/api/forensic/bundle/verify' : '/api/forensic/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': isBundle ? 'application/zip' : 'application/json' },
+        body: isBundle ? await file.arrayBuffer() : await file.text(),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Verification failed');
+      }
+      if (isBundle) {
+        setBundleResult(data);
+      } else {
+        setResult(data);
+      }
+    } catch (err) {
+      console.error('Report verification error:', err);
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    }
+    setVerifying(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <h2 className="text-2xl font-bold text-gray-800">Verify Forensic Report</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Upload a JSON report to check its snapshot hash and server signature, or a ZIP evidence
+        bundle to check every file against its signed manifest.
+      </p>
+
+      <input
+        type="file"
+        accept=".json,.zip,application/json,application/zip"
+        onChange={handleUpload}
+        className="w-full p-2 border rounded-md"
+      />
+
+      {verifying && (
+        <div className="mt-4 text-center text-purple-500 font-medium animate-pulse">
+          Verifying {fileName}...
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-6 bg-red-50 border-l-4 border-red-400 p-4 text-sm text-red-800">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-6 space-y-3">
+          <div
+            className={`p-4 rounded-lg border-l-4 ${
+              result.valid ? 'bg-green-50 border-green-400' : 'bg-red-50 border-red-400'
+            }`}
+          >
+            <h3 className={`text-xl font-bold ${result.valid ? 'text-green-800' : 'text-red-800'}`}>
+              {result.valid ? '✓ Report Verified' : '⚠️ Verification Failed'}
+            </h3>
+            <p className="text-sm text-gray-600">
+              Report <code className="text-xs">{result.reportId}</code> • checked{' '}
+              {new Date(result.verifiedAt).toLocaleString()}
+            </p>
+          </div>
+
+          <div className="bg-gray-50 p-4 rounded-lg text-sm space-y-2">
+            <p>
+              <strong>Snapshot hash:</strong>{' '}
+              {result.integrity ? (
+                <span className="text-green-700">matches snapshot</span>
+              ) : (
+                <span className="text-red-700">does not match snapshot (data modified)</span>
+              )}
+            </p>
+            <p>
+              <strong>Snapshot capture:</strong>{' '}
+              {result.capture === 'server' ? (
+                <span className="text-green-700">fetched server-side from Roblox</span>
+              ) : (
+                <span className="text-orange-700">
+                  {result.capture === 'unknown' ? 'not recorded' : 'submitted by client (unverified)'}
+                </span>
+              )}
+            </p>
+            <p>
+              <strong>Canonicalization:</strong> {result.canonicalization}
+              {result.canonicalization === 'legacy-top-level-keys' && (
+                <span className="block text-xs text-orange-700">
+                  Legacy hash: nested snapshot fields (e.g. user.username, groups[].name) are not covered.
+                </span>
+              )}
+            </p>
+            <p>
+              <strong>Signature:</strong>{' '}
+              {result.signature.valid ? (
+                <span className="text-green-700">valid</span>
+              ) : (
+                <span className="text-red-700">{result.signature.reason || 'invalid'}</span>
+              )}
+              {result.signature.keyId && (
+                <span className="text-gray-500">
+                  {' '}
+                  (key <code className="text-xs">{result.signature.keyId}</code>, {result.signature.keyStatus})
+                </span>
+              )}
+            </p>
+            <p>
+              <strong>RFC 3161 timestamp:</strong>{' '}
+              {!result.timestamp ? (
+                <span className="text-gray-500">none</span>
+              ) : result.timestamp.valid ? (
+                <span className="text-green-700">
+                  valid, {result.timestamp.genTime} ({result.timestamp.tsa})
+                </span>
+              ) : (
+                <span className="text-red-700">{result.timestamp.reason || 'invalid'}</span>
+              )}
+            </p>
+            {result.redaction && (
+              <p>
+                <strong>Redacted copy ({result.redaction.profile}):</strong>{' '}
+                {result.redaction.consistent ? (
+                  <span className="text-green-700">consistent with the sealed original</span>
+                ) : (
+                  <span className="text-red-700">{result.redaction.reason || 'inconsistent'}</span>
+                )}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {bundleResult && (
+        <div className="mt-6 space-y-3">
+          <div
+            className={`p-4 rounded-lg border-l-4 ${
+              bundleResult.valid ? 'bg-green-50 border-green-400' : 'bg-red-50 border-red-400'
+            }`}
+          >
+            <h3 className={`text-xl font-bold ${bundleResult.valid ? 'text-green-800' : 'text-red-800'}`}>
+              {bundleResult.valid ? '✓ Bundle Verified' : '⚠️ Bundle Verification Failed'}
+            </h3>
+            <p className="text-sm text-gray-600">
+              Report <code className="text-xs">{bundleResult.reportId}</code> • checked{' '}
+              {new Date(bundleResult.verifiedAt).toLocaleString()}
+            </p>
+          </div>
+
+          <div className="bg-gray-50 p-4 rounded-lg text-sm space-y-2">
+            <p>
+              <strong>Manifest signature:</strong>{' '}
+              {bundleResult.manifestSignature.valid ? (
+                <span className="text-green-700">valid</span>
+              ) : (
+                <span className="text-red-700">{bundleResult.manifestSignature.reason || 'invalid'}</span>
+              )}
+            </p>
+            <p>
+              <strong>Embedded report:</strong>{' '}
+              {bundleResult.reportIntegrity ? (
+                <span className="text-green-700">hash matches snapshot and manifest</span>
+              ) : (
+                <span className="text-red-700">hash mismatch or report missing</span>
+              )}
+            </p>
+            <ul className="space-y-1">
+              {bundleResult.files.map(file => (
+                <li key={file.path} className="font-mono text-xs">
+                  {file.ok ? '✓' : '✗'} {file.path}
+                  {file.reason && <span className="text-red-700"> — {file.reason}</span>}
+                </li>
+              ))}
+              {bundleResult.unlistedFiles.map(path => (
+                <li key={path} className="font-mono text-xs text-red-700">
+                  ✗ {path} — not listed in manifest
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,322 @@
+// FILE: src/app/components/Watchlists.tsx
+// Watchlists - Watched accounts, scheduled checks and change alerts UI
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+interface Watchlist {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  userIds: string[];
+  intervalMinutes: number;
+  lastRunAt?: string;
+}
+
+interface WatchAlert {
+  id: string;
+  watchlistId: string;
+  watchlistName: string;
+  userId: string;
+  username: string;
+  createdAt: string;
+  changes: Array<{ field: string; summary: string }>;
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+}
+
+export default function Watchlists() {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [alerts, setAlerts] = useState<WatchAlert[]>([]);
+  const [showAcknowledged, setShowAcknowledged] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', userIds: '', intervalMinutes: '60' });
+  const [addInputs, setAddInputs] = useState<Record<string, string>>({});
+
+  const fetchAll = useCallback(async () => {
+    setError(null);
+    try {
+      const [listResponse, alertResponse] = await Promise.all([
+        fetch('/api/watchlists'),
+        fetch(`/api/alerts${showAcknowledged ? '' : '?unacknowledged=true'}`),
+      ]);
+      if (!listResponse.ok || !alertResponse.ok) {
+        throw new Error('Failed to fetch watchlists');
+      }
+      setWatchlists((await listResponse.json()).watchlists);
+      setAlerts((await alertResponse.json()).alerts);
+    } catch (err) {
+      console.error('Failed to fetch watchlists:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch watchlists');
+    }
+    setLoading(false);
+  }, [showAcknowledged]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const parseIds = (value: string) => value.split(/[\s,]+/).map(id => id.trim()).filter(Boolean);
+
+  const request = async (key: string, url: string, init: RequestInit) => {
+    setBusy(key);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Request failed');
+      }
+      const data = await response.json();
+      await fetchAll();
+      setBusy(null);
+      return data;
+    } catch (err) {
+      console.error('Watchlist request failed:', err);
+      alert(err instanceof Error ? err.message : 'Request failed');
+      setBusy(null);
+      return null;
+    }
+  };
+
+  const createWatchlist = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await request('create', '/api/watchlists', {
+      method: 'POST',
+      body: JSON.stringify({
+        name: form.name,
+        userIds: parseIds(form.userIds),
+        intervalMinutes: Number(form.intervalMinutes),
+      }),
+    });
+    if (created) setForm({ name: '', userIds: '', intervalMinutes: '60' });
+  };
+
+  const runNow = async (id: string) => {
+    const result = await request(`run:${id}`, `/api/watchlists/${id}/run`, { method: 'POST' });
+    if (result) {
+      alert(
+        `Checked ${result.checked} account(s): ${result.alerts.length} alert(s)` +
+          (result.failed.length > 0 ? `, ${result.failed.length} failed (${result.failed.join(', ')})` : '')
+      );
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg shadow-lg p-8">
+        <div className="animate-pulse space-y-4">
+          <div className="h-8 bg-gray-200 rounded w-1/4"></div>
+          <div className="h-64 bg-gray-200 rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Alerts */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-800">Alerts</h2>
+            <p className="text-sm text-gray-600">
+              Display name, bio keyword, group and ban changes on watched accounts
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={showAcknowledged}
+              onChange={(e) => setShowAcknowledged(e.target.checked)}
+            />
+            Show acknowledged
+          </label>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border-l-4 border-red-400 p-4 mb-4 text-sm text-red-800">{error}</div>
+        )}
+
+        {alerts.length === 0 ? (
+          <p className="text-center py-6 text-gray-500">No alerts</p>
+        ) : (
+          <div className="space-y-3">
+            {alerts.map(a => (
+              <div
+                key={a.id}
+                className={`p-4 rounded-lg border-l-4 ${
+                  a.acknowledgedAt ? 'bg-gray-50 border-gray-300' : 'bg-orange-50 border-orange-400'
+                }`}
+              >
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-medium">
+                      @{a.username} <span className="text-xs text-gray-500">(ID {a.userId})</span>
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {a.watchlistName} • {new Date(a.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {a.acknowledgedAt ? (
+                    <span className="text-xs text-gray-500">
+                      Acknowledged by {a.acknowledgedBy}
+                    </span>
+                  ) : (
+                    <button
+                      onClick={() => request(`ack:${a.id}`, '/api/alerts', {
+                        method: 'PATCH',
+                        body: JSON.stringify({ id: a.id }),
+                      })}
+                      disabled={busy !== null}
+                      className="text-xs px-2 py-1 border rounded hover:bg-white disabled:opacity-50"
+                    >
+                      ✓ Acknowledge
+                    </button>
+                  )}
+                </div>
+                <ul className="mt-2 text-sm list-disc list-inside">
+                  {a.changes.map((c, idx) => (
+                    <li key={idx}>{c.summary}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Watchlists */}
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">Watchlists</h2>
+
+        <form onSubmit={createWatchlist} className="bg-gray-50 p-4 rounded-lg mb-6 grid grid-cols-1 md:grid-cols-4 gap-3">
+          <input
+            type="text"
+            placeholder="Watchlist name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="px-3 py-2 border rounded-lg text-sm"
+            required
+          />
+          <input
+            type="text"
+            placeholder="User IDs (comma-separated)"
+            value={form.userIds}
+            onChange={(e) => setForm({ ...form, userIds: e.target.value })}
+            className="px-3 py-2 border rounded-lg text-sm"
+          />
+          <select
+            value={form.intervalMinutes}
+            onChange={(e) => setForm({ ...form, intervalMinutes: e.target.value })}
+            className="px-3 py-2 border rounded-lg text-sm"
+          >
+            <option value="15">Every 15 minutes</option>
+            <option value="60">Hourly</option>
+            <option value="360">Every 6 hours</option>
+            <option value="1440">Daily</option>
+          </select>
+          <button
+            type="submit"
+            disabled={busy !== null || !form.name.trim()}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition text-sm"
+          >
+            ➕ Create Watchlist
+          </button>
+        </form>
+
+        {watchlists.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <div className="text-6xl mb-4">👁️</div>
+            <p>No watchlists yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {watchlists.map(w => (
+              <div key={w.id} className="border rounded-lg p-4">
+                <div className="flex justify-between items-start mb-3">
+                  <div>
+                    <h3 className="font-bold text-lg">{w.name}</h3>
+                    <p className="text-xs text-gray-500">
+                      Every {w.intervalMinutes} min • Last checked{' '}
+                      {w.lastRunAt ? new Date(w.lastRunAt).toLocaleString() : 'never'} • by {w.createdBy}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => runNow(w.id)}
+                      disabled={busy !== null || w.userIds.length === 0}
+                      className="text-sm px-3 py-1 bg-purple-500 text-white rounded hover:bg-purple-600 disabled:bg-gray-300"
+                    >
+                      {busy === `run:${w.id}` ? 'Checking...' : '🔄 Check Now'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete watchlist "${w.name}"?`)) {
+                          request(`delete:${w.id}`, `/api/watchlists/${w.id}`, { method: 'DELETE' });
+                        }
+                      }}
+                      disabled={busy !== null}
+                      className="text-sm px-3 py-1 border border-red-300 text-red-600 rounded hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {w.userIds.length === 0 && <span className="text-sm text-gray-500">No accounts</span>}
+                  {w.userIds.map(userId => (
+                    <span key={userId} className="text-sm bg-gray-100 px-2 py-1 rounded flex items-center gap-1">
+                      <code>{userId}</code>
+                      <button
+                        onClick={() => request(`edit:${w.id}`, `/api/watchlists/${w.id}`, {
+                          method: 'PATCH',
+                          body: JSON.stringify({ removeUserIds: [userId] }),
+                        })}
+                        disabled={busy !== null}
+                        className="text-gray-500 hover:text-red-600"
+                        title="Remove"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
+                </div>
+
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    placeholder="Add user IDs..."
+                    value={addInputs[w.id] || ''}
+                    onChange={(e) => setAddInputs({ ...addInputs, [w.id]: e.target.value })}
+                    className="flex-1 px-3 py-2 border rounded-lg text-sm"
+                  />
+                  <button
+                    onClick={async () => {
+                      const updated = await request(`edit:${w.id}`, `/api/watchlists/${w.id}`, {
+                        method: 'PATCH',
+                        body: JSON.stringify({ addUserIds: parseIds(addInputs[w.id] || '') }),
+                      });
+                      if (updated) setAddInputs({ ...addInputs, [w.id]: '' });
+                    }}
+                    disabled={busy !== null || !(addInputs[w.id] || '').trim()}
+                    className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:bg-gray-300 transition text-sm"
+                  >
+                    Add
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
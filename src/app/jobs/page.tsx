@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import BatchJobs from '../components/BatchJobs';
+
+export default function BatchJobsPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  if (status === 'loading') {
+    return <div>Loading...</div>;
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+      <div className="mx-auto w-full max-w-5xl">
+        <Link href="/" className="inline-block mb-4 text-sm text-blue-600 hover:text-blue-800">
+          ← Back to Verifier
+        </Link>
+        <BatchJobs />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,224 @@
+// FILE: src/app/lib/audit.ts
+// Forensic Mode - Append-only, hash-chained audit log store
+
+import { createHash } from 'crypto';
+import { appendLine, readLines, readRawLines, withLock } from './storage';
+import { countCasesForReports } from './cases';
+
+const AUDIT_LOG_FILE = 'audit-log.ndjson';
+
+// prevHash of the first entry in the ledger
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditLogEntry {
+  id: string;
+  reportId: string;
+  createdBy: string;
+  queryInput: string;
+  queryMode: string;
+  resultUserId?: string;
+  snapshotHash: string;
+  createdAt: string;
+  exportedAt?: string;
+  exportFormat?: string;
+  // SHA-256 of the exported file, when it differs from the report JSON (e.g. PDF)
+  exportHash?: string;
+  // Redaction profile applied to the exported copy, when anything was masked
+  redactionProfile?: string;
+  caseId?: string;
+  prevHash: string;
+  entryHash: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  verifiedAt: string;
+  // Hash of the last entry; record it externally to detect truncation later
+  headHash?: string;
+  brokenLink?: {
+    index: number;
+    entryId?: string;
+    reason: string;
+  };
+}
+
+export interface AuditLogFilters {
+  user?: string;
+  caseId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  stats: {
+    today: number;
+    uniqueCases: number;
+  };
+}
+
+/**
+ * Hash an entry's content together with the hash of its predecessor
+ */
+export function computeEntryHash(entry: Omit<AuditLogEntry, 'entryHash'>): string {
+  const sorted: Record<string, unknown> = {};
+  Object.keys(entry)
+    .sort()
+    .forEach(key => {
+      sorted[key] = entry[key as keyof typeof entry];
+    });
+  return createHash('sha256').update(JSON.stringify(sorted)).digest('hex');
+}
+
+/**
+ * Append an entry to the audit log, chained to the previous entry's hash
+ */
+export async function saveAuditLog(
+  entry: Omit<AuditLogEntry, 'id' | 'prevHash' | 'entryHash'>
+): Promise<AuditLogEntry> {
+  return withLock(AUDIT_LOG_FILE, async () => {
+    const lines = await readRawLines(AUDIT_LOG_FILE);
+    const last = lines.length > 0 ? (JSON.parse(lines[lines.length - 1]) as AuditLogEntry) : null;
+
+    const unsealed = {
+      id: crypto.randomUUID(),
+      ...entry,
+      prevHash: last ? last.entryHash : GENESIS_HASH,
+    };
+    const saved: AuditLogEntry = { ...unsealed, entryHash: computeEntryHash(unsealed) };
+    await appendLine(AUDIT_LOG_FILE, saved);
+    return saved;
+  });
+}
+
+/**
+ * Walk the ledger from the start and report the first broken link
+ */
+export async function verifyAuditChain(): Promise<AuditChainVerification> {
+  const lines = await readRawLines(AUDIT_LOG_FILE);
+  const verifiedAt = new Date().toISOString();
+  let expectedPrevHash = GENESIS_HASH;
+
+  for (let index = 0; index < lines.length; index++) {
+    let entry: AuditLogEntry;
+    try {
+      entry = JSON.parse(lines[index]) as AuditLogEntry;
+    } catch {
+      return {
+        valid: false,
+        checkedEntries: index,
+        verifiedAt,
+        brokenLink: { index, reason: 'Entry is not valid JSON' },
+      };
+    }
+
+    const { entryHash, ...unsealed } = entry;
+    if (entry.prevHash !== expectedPrevHash) {
+      return {
+        valid: false,
+        checkedEntries: index,
+        verifiedAt,
+        brokenLink: {
+          index,
+          entryId: entry.id,
+          reason: 'Previous-entry hash does not match (entry removed, inserted or reordered)',
+        },
+      };
+    }
+    if (!entryHash || computeEntryHash(unsealed) !== entryHash) {
+      return {
+        valid: false,
+        checkedEntries: index,
+        verifiedAt,
+        brokenLink: {
+          index,
+          entryId: entry.id,
+          reason: 'Entry hash does not match its content (entry modified)',
+        },
+      };
+    }
+
+    expectedPrevHash = entryHash;
+  }
+
+  return { valid: true, checkedEntries: lines.length, verifiedAt, headHash: expectedPrevHash };
+}
+
+/**
+ * Read all audit log entries in insertion order
+ */
+export async function readAuditLog(): Promise<AuditLogEntry[]> {
+  return readLines<AuditLogEntry>(AUDIT_LOG_FILE);
+}
+
+// Date filters are whole days (YYYY-MM-DD), inclusive on both ends
+function dayBounds(filters: AuditLogFilters): { from?: string; to?: string } {
+  const bounds: { from?: string; to?: string } = {};
+  const from = filters.dateFrom ? new Date(filters.dateFrom) : null;
+  if (from && !isNaN(from.getTime())) {
+    bounds.from = from.toISOString();
+  }
+  const to = filters.dateTo ? new Date(filters.dateTo) : null;
+  if (to && !isNaN(to.getTime())) {
+    to.setUTCDate(to.getUTCDate() + 1);
+    bounds.to = to.toISOString();
+  }
+  return bounds;
+}
+
+function matchesFilters(
+  entry: AuditLogEntry,
+  filters: AuditLogFilters,
+  bounds: { from?: string; to?: string }
+): boolean {
+  if (filters.user && !entry.createdBy.toLowerCase().includes(filters.user.toLowerCase())) {
+    return false;
+  }
+  if (filters.caseId && !(entry.caseId || '').toLowerCase().includes(filters.caseId.toLowerCase())) {
+    return false;
+  }
+  if (bounds.from && entry.createdAt < bounds.from) {
+    return false;
+  }
+  if (bounds.to && entry.createdAt >= bounds.to) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Query the audit log, newest first, with filtering and pagination
+ */
+export async function queryAuditLogs(
+  filters: AuditLogFilters,
+  page: number = 1,
+  pageSize: number = 20
+): Promise<AuditLogPage> {
+  const all = await readAuditLog();
+  const bounds = dayBounds(filters);
+  const matched = all.filter(entry => matchesFilters(entry, filters, bounds)).reverse();
+
+  const total = matched.length;
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const currentPage = Math.min(Math.max(1, page), totalPages);
+  const start = (currentPage - 1) * pageSize;
+  const today = new Date().toDateString();
+
+  return {
+    entries: matched.slice(start, start + pageSize),
+    total,
+    page: currentPage,
+    pageSize,
+    totalPages,
+    stats: {
+      today: matched.filter(e => new Date(e.createdAt).toDateString() === today).length,
+      // Counted from the case store, so typos in old free-text case IDs don't inflate it
+      uniqueCases: await countCasesForReports(matched.map(e => e.reportId)),
+    },
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from 'vitest';
+import { resolveBulk } from './bulk';
+
+// Replays responses recorded from scripts/mock-roblox.mjs; see profile.test.ts
+vi.hoisted(() => {
+  process.env.ROBLOX_FIXTURE_MODE ||= 'replay';
+  process.env.ROBLOX_FIXTURE_DIR = 'src/test/fixtures/roblox';
+});
+
+const USERNAMES = ['BuilderBen', 'builderben', 'BenTheBuilder', '@SpeedySam', 'ScamAlt2024', 'no_such_user'];
+const USER_IDS = ['100002', '100006', '999999'];
+
+describe('resolveBulk (recorded fixtures)', () => {
+  it('maps every input back to its account in input order', async () => {
+    const result = await resolveBulk({ usernames: USERNAMES, userIds: USER_IDS }, { bypassCache: true });
+
+    expect(result.usernames.map(r => [r.requested, r.user?.id ?? null, r.mismatch ?? null])).toEqual([
+      ['BuilderBen', 100001, null],
+      ['builderben', 100001, 'case'],
+      ['BenTheBuilder', 100001, 'renamed'],
+      ['SpeedySam', 100002, null],
+      // Banned accounts are left out of username matches by default
+      ['ScamAlt2024', null, null],
+      ['no_such_user', null, null],
+    ]);
+    expect(result.userIds.map(r => [r.requested, r.user?.name ?? null])).toEqual([
+      ['100002', 'SpeedySam'],
+      ['100006', 'BannedBuilder'],
+      ['999999', null],
+    ]);
+    // One call per kind, duplicates folded
+    expect(result.requests).toBe(2);
+  });
+
+  it('includes banned accounts when asked', async () => {
+    const result = await resolveBulk({ usernames: ['ScamAlt2024'] }, { bypassCache: true, includeBanned: true });
+
+    expect(result.usernames[0].user).toMatchObject({ id: 100005, name: 'ScamAlt2024' });
+  });
+});
@@ -0,0 +1,118 @@
+// FILE: src/app/lib/bulk.ts
+// Bulk resolution - Chunked username and user ID lookups mapped back to their inputs (server only)
+
+import {
+  getUsersByIds,
+  getUsersByUsernames,
+  MAX_USERS_PER_REQUEST,
+  type LookupOptions,
+  type RobloxUserSummary,
+} from './roblox';
+
+// Most inputs one bulk call accepts, usernames and IDs combined
+export const MAX_BULK_INPUTS = 10000;
+
+// Chunks in flight at once; the per-host rate limiter still paces them
+const CHUNK_CONCURRENCY = 4;
+
+/**
+ * 'case' when Roblox matched the username with different casing,
+ * 'renamed' when it matched a past username of the account
+ */
+export type UsernameMismatch = 'case' | 'renamed';
+
+export interface UsernameResolution {
+  requested: string;
+  user: RobloxUserSummary | null;
+  mismatch?: UsernameMismatch;
+}
+
+export interface UserIdResolution {
+  requested: string;
+  user: RobloxUserSummary | null;
+}
+
+/**
+ * Results in the same order as the inputs, duplicates included
+ */
+export interface BulkResolution {
+  usernames: UsernameResolution[];
+  userIds: UserIdResolution[];
+  requests: number;
+  cacheHits: number;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Run a task per chunk, at most CHUNK_CONCURRENCY at a time
+ */
+async function forEachChunk<T>(chunks: T[][], task: (chunk: T[]) => Promise<void>): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < chunks.length) {
+      await task(chunks[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, worker));
+}
+
+/**
+ * Resolve usernames and user IDs with as few Roblox calls as possible.
+ * Inputs are de-duplicated (usernames case-insensitively) and sent in chunks
+ * of MAX_USERS_PER_REQUEST, then every input gets its own result back.
+ * Throws a RobloxApiError if any chunk fails.
+ */
+export async function resolveBulk(
+  input: { usernames?: string[]; userIds?: string[] },
+  options: LookupOptions & { includeBanned?: boolean } = {}
+): Promise<BulkResolution> {
+  const usernames = (input.usernames || []).map(name => name.trim().replace(/^@/, ''));
+  const userIds = (input.userIds || []).map(id => id.trim());
+  let requests = 0;
+  let cacheHits = 0;
+
+  const byUsername = new Map<string, RobloxUserSummary>();
+  const uniqueUsernames = [...new Map(
+    usernames.filter(name => /^[a-zA-Z0-9_]+$/.test(name)).map(name => [name.toLowerCase(), name])
+  ).values()];
+  await forEachChunk(chunk(uniqueUsernames, MAX_USERS_PER_REQUEST), async names => {
+    const { data, cache } = await getUsersByUsernames(names, {
+      excludeBanned: !options.includeBanned,
+      bypassCache: options.bypassCache,
+    });
+    requests++;
+    if (cache?.hit) cacheHits++;
+    // Roblox echoes requestedUsername; the account's current name may differ
+    data.forEach(({ requestedUsername, ...user }) => byUsername.set(requestedUsername.toLowerCase(), user));
+  });
+
+  const byId = new Map<string, RobloxUserSummary>();
+  const uniqueIds = [...new Set(userIds.filter(id => /^\d+$/.test(id)))];
+  await forEachChunk(chunk(uniqueIds, MAX_USERS_PER_REQUEST), async ids => {
+    const { data, cache } = await getUsersByIds(ids, { bypassCache: options.bypassCache });
+    requests++;
+    if (cache?.hit) cacheHits++;
+    data.forEach(user => byId.set(String(user.id), user));
+  });
+
+  return {
+    usernames: usernames.map(requested => {
+      const user = byUsername.get(requested.toLowerCase()) || null;
+      if (!user || user.name === requested) {
+        return { requested, user };
+      }
+      const mismatch: UsernameMismatch = user.name.toLowerCase() === requested.toLowerCase() ? 'case' : 'renamed';
+      return { requested, user, mismatch };
+    }),
+    userIds: userIds.map(requested => ({ requested, user: byId.get(requested) || null })),
+    requests,
+    cacheHits,
+  };
+}
@@ -0,0 +1,30 @@
+import { unzipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { buildEvidenceBundle } from './bundle';
+import { createForensicReport, DEFAULT_FIELD_SELECTOR } from './forensic';
+
+const RAW = {
+  'roblox.users': JSON.stringify({ id: 1, name: 'subject', displayName: 'Subject', created: '2020-01-01', isBanned: false }),
+  'roblox.groups': JSON.stringify({ data: [] }),
+};
+
+async function bundleFiles(selector: typeof DEFAULT_FIELD_SELECTOR): Promise<string[]> {
+  const report = await createForensicReport({ profile: { bio: '' } }, { input: '1', mode: 'userId' }, {});
+  const { zip } = await buildEvidenceBundle(report, RAW, null, selector);
+  return Object.keys(unzipSync(zip));
+}
+
+describe('buildEvidenceBundle field selection', () => {
+  it('withholds the raw users response when the user section is deselected', async () => {
+    const files = await bundleFiles({ ...DEFAULT_FIELD_SELECTOR, user: false });
+
+    expect(files).not.toContain('raw/roblox.users.json');
+    expect(files).toContain('raw/roblox.groups.json');
+  });
+
+  it('ships the raw users response when user and profile are both selected', async () => {
+    const files = await bundleFiles(DEFAULT_FIELD_SELECTOR);
+
+    expect(files).toContain('raw/roblox.users.json');
+  });
+});
@@ -0,0 +1,173 @@
+// FILE: src/app/lib/bundle.ts
+// Forensic Mode - Evidence bundle (ZIP) export and verification (server only)
+
+import { createHash } from 'crypto';
+import { unzipSync, zipSync } from 'fflate';
+import {
+  canonicalize,
+  generateReportHTML,
+  verifyReportIntegrity,
+  type FieldSelector,
+  type ForensicReport,
+} from './forensic';
+import { renderReportPDF } from './pdf';
+import {
+  signPayload,
+  verifyPayloadSignature,
+  type PayloadSignature,
+  type SignatureVerification,
+} from './signing';
+
+export const BUNDLE_FORMAT = 'roblox-verifier-evidence-bundle/1';
+const MANIFEST_PATH = 'manifest.json';
+
+export interface BundleManifest {
+  format: string;
+  reportId: string;
+  createdAt: string;
+  snapshotHash: string;
+  files: Array<{
+    path: string;
+    sha256: string;
+    bytes: number;
+  }>;
+  signature?: PayloadSignature;
+}
+
+export interface BundleVerification {
+  valid: boolean;
+  reportId?: string;
+  manifestSignature: SignatureVerification;
+  reportIntegrity: boolean;
+  files: Array<{
+    path: string;
+    ok: boolean;
+    reason?: string;
+  }>;
+  unlistedFiles: string[];
+}
+
+// Which snapshot sections each raw upstream response backs; a response is
+// only shipped when every one of them is selected, since it holds them all
+const RAW_SOURCE_SECTIONS: Record<string, Array<keyof FieldSelector>> = {
+  'roblox.users': ['user', 'profile'],
+  'roblox.groups': ['groups'],
+  'roblox.friends': ['counts'],
+  'roblox.usernameHistory': ['history'],
+};
+
+function sha256(data: Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function manifestPayload(manifest: BundleManifest, signedAt: string): Buffer {
+  // canonicalize() drops undefined members, so the signature itself is excluded
+  return Buffer.from(canonicalize({ ...manifest, signature: undefined, signedAt }), 'utf8');
+}
+
+/**
+ * Package a report with its rendered forms, the raw upstream responses and
+ * the avatar image. Raw responses and the avatar are only included when the
+ * field selector keeps every snapshot section they back.
+ */
+export async function buildEvidenceBundle(
+  report: ForensicReport,
+  raw: Record<string, string>,
+  avatar: ArrayBuffer | null,
+  selector: FieldSelector
+): Promise<{ zip: Uint8Array; manifest: BundleManifest }> {
+  const encoder = new TextEncoder();
+  const files: Record<string, Uint8Array> = {
+    'report.json': encoder.encode(JSON.stringify(report, null, 2)),
+    'report.html': encoder.encode(generateReportHTML(report)),
+    'report.pdf': await renderReportPDF(report),
+  };
+
+  Object.entries(raw).forEach(([source, body]) => {
+    const sections = RAW_SOURCE_SECTIONS[source];
+    if (sections && sections.every(section => selector[section])) {
+      files[`raw/${source}.json`] = encoder.encode(body);
+    }
+  });
+
+  if (avatar && selector.user) {
+    files['avatar.png'] = new Uint8Array(avatar);
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    reportId: report.meta.reportId,
+    createdAt: report.meta.createdAt,
+    snapshotHash: report.hash.value,
+    files: Object.entries(files).map(([path, data]) => ({
+      path,
+      sha256: sha256(data),
+      bytes: data.length,
+    })),
+  };
+  manifest.signature = await signPayload(signedAt => manifestPayload(manifest, signedAt));
+  files[MANIFEST_PATH] = encoder.encode(JSON.stringify(manifest, null, 2));
+
+  // Fixed timestamps keep the archive reproducible for a given report
+  const mtime = new Date(report.meta.createdAt);
+  const zip = zipSync(
+    Object.fromEntries(Object.entries(files).map(([path, data]) => [path, [data, { mtime }]]))
+  );
+
+  return { zip, manifest };
+}
+
+/**
+ * Check every file in a bundle against its manifest, the manifest signature
+ * and the integrity of the embedded report
+ */
+export async function verifyEvidenceBundle(zip: Uint8Array): Promise<BundleVerification> {
+  const entries = unzipSync(zip);
+  const manifestBytes = entries[MANIFEST_PATH];
+  if (!manifestBytes) {
+    throw new Error('Bundle has no manifest.json');
+  }
+
+  const manifest: BundleManifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  const manifestSignature = await verifyPayloadSignature(
+    manifest.signature,
+    signedAt => manifestPayload(manifest, signedAt)
+  );
+
+  const files = manifest.files.map(file => {
+    const data = entries[file.path];
+    if (!data) {
+      return { path: file.path, ok: false, reason: 'Missing from bundle' };
+    }
+    if (sha256(data) !== file.sha256) {
+      return { path: file.path, ok: false, reason: 'SHA-256 does not match manifest' };
+    }
+    return { path: file.path, ok: true };
+  });
+
+  const listed = new Set([MANIFEST_PATH, ...manifest.files.map(f => f.path)]);
+  const unlistedFiles = Object.keys(entries).filter(path => !listed.has(path) && !path.endsWith('/'));
+
+  let reportIntegrity = false;
+  const reportBytes = entries['report.json'];
+  if (reportBytes) {
+    const report: ForensicReport = JSON.parse(new TextDecoder().decode(reportBytes));
+    reportIntegrity =
+      report.meta?.reportId === manifest.reportId &&
+      report.hash?.value === manifest.snapshotHash &&
+      (await verifyReportIntegrity(report));
+  }
+
+  return {
+    valid:
+      manifestSignature.valid &&
+      reportIntegrity &&
+      files.every(f => f.ok) &&
+      unlistedFiles.length === 0,
+    reportId: manifest.reportId,
+    manifestSignature,
+    reportIntegrity,
+    files,
+    unlistedFiles,
+  };
+}
@@ -0,0 +1,97 @@
+// FILE: src/app/lib/cache.ts
+// Response cache - Shared in-memory LRU with an optional on-disk tier (server only)
+
+import { createHash } from 'crypto';
+import { readJSON, withLock, writeJSON } from './storage';
+
+// 'memory' (default) or 'disk'; disk entries survive restarts and are shared
+// by every process using the same VERIFIER_DATA_DIR
+const BACKEND = process.env.RESPONSE_CACHE_BACKEND || 'memory';
+const MAX_ENTRIES = Number(process.env.RESPONSE_CACHE_MAX_ENTRIES) || 1000;
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * What a cached lookup reports back to API clients
+ */
+export interface CacheInfo {
+  hit: boolean;
+  storedAt: string;
+  ageSeconds: number;
+  ttlSeconds: number;
+}
+
+// Least recently used first: Map keeps insertion order and reads re-insert
+const memory = new Map<string, CacheEntry<unknown>>();
+
+function diskFile(key: string): string {
+  return `cache/${createHash('sha256').update(key).digest('hex')}.json`;
+}
+
+function remember(key: string, entry: CacheEntry<unknown>): void {
+  memory.delete(key);
+  memory.set(key, entry);
+  while (memory.size > MAX_ENTRIES) {
+    const oldest = memory.keys().next().value;
+    if (oldest === undefined) break;
+    memory.delete(oldest);
+  }
+}
+
+/**
+ * Look up an unexpired entry, memory first, then disk when enabled
+ */
+export async function cacheGet<T>(key: string): Promise<CacheEntry<T> | null> {
+  const now = Date.now();
+  const cached = memory.get(key);
+  if (cached && cached.expiresAt > now) {
+    remember(key, cached);
+    return cached as CacheEntry<T>;
+  }
+  memory.delete(key);
+
+  if (BACKEND !== 'disk') {
+    return null;
+  }
+  try {
+    const stored = await readJSON<CacheEntry<T> | null>(diskFile(key), null);
+    if (!stored || stored.expiresAt <= now) {
+      return null;
+    }
+    remember(key, stored);
+    return stored;
+  } catch (err) {
+    // A corrupt cache file is a miss, not a failure
+    console.error('Cache read error:', err);
+    return null;
+  }
+}
+
+export async function cacheSet<T>(key: string, value: T, ttlSeconds: number): Promise<CacheEntry<T>> {
+  const storedAt = Date.now();
+  const entry: CacheEntry<T> = { value, storedAt, expiresAt: storedAt + ttlSeconds * 1000 };
+  remember(key, entry);
+
+  if (BACKEND === 'disk') {
+    const file = diskFile(key);
+    try {
+      await withLock(file, () => writeJSON(file, entry));
+    } catch (err) {
+      console.error('Cache write error:', err);
+    }
+  }
+  return entry;
+}
+
+export function describeCacheEntry(entry: CacheEntry<unknown>, hit: boolean): CacheInfo {
+  return {
+    hit,
+    storedAt: new Date(entry.storedAt).toISOString(),
+    ageSeconds: Math.floor((Date.now() - entry.storedAt) / 1000),
+    ttlSeconds: Math.round((entry.expiresAt - entry.storedAt) / 1000),
+  };
+}
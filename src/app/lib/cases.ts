@@ -0,0 +1,224 @@
+// FILE: src/app/lib/cases.ts
+// Case Management - Case store: analysts, subjects, linked reports, searches and notes (server only)
+
+import { randomUUID } from 'crypto';
+import { readJSON, withLock, writeJSON } from './storage';
+
+const CASES_FILE = 'cases.json';
+
+export type CaseStatus = 'open' | 'closed';
+
+export interface CaseSubject {
+  userId: string;
+  username: string;
+  displayName: string;
+  attachedBy: string;
+  attachedAt: string;
+}
+
+export interface CaseSearch {
+  input: string;
+  mode: string;
+  resultUserId?: string;
+  searchedBy: string;
+  searchedAt: string;
+}
+
+export interface CaseNote {
+  id: string;
+  author: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface Case {
+  caseId: string;
+  title: string;
+  description: string;
+  status: CaseStatus;
+  createdBy: string;
+  createdAt: string;
+  closedBy?: string;
+  closedAt?: string;
+  assignees: string[];
+  subjects: CaseSubject[];
+  reportIds: string[];
+  searches: CaseSearch[];
+  notes: CaseNote[];
+}
+
+export type CaseSummary = Omit<Case, 'subjects' | 'searches' | 'notes' | 'reportIds'> & {
+  subjectCount: number;
+  reportCount: number;
+  noteCount: number;
+};
+
+async function loadCases(): Promise<Case[]> {
+  return readJSON<Case[]>(CASES_FILE, []);
+}
+
+function toSummary(c: Case): CaseSummary {
+  return {
+    caseId: c.caseId,
+    title: c.title,
+    description: c.description,
+    status: c.status,
+    createdBy: c.createdBy,
+    createdAt: c.createdAt,
+    closedBy: c.closedBy,
+    closedAt: c.closedAt,
+    assignees: c.assignees,
+    subjectCount: c.subjects.length,
+    reportCount: c.reportIds.length,
+    noteCount: c.notes.length,
+  };
+}
+
+/**
+ * Apply a change to one case under the store lock. Returns the updated case,
+ * or null if it does not exist.
+ */
+async function updateCase(caseId: string, change: (c: Case) => void): Promise<Case | null> {
+  return withLock(CASES_FILE, async () => {
+    const cases = await loadCases();
+    const found = cases.find(c => c.caseId === caseId);
+    if (!found) {
+      return null;
+    }
+    change(found);
+    await writeJSON(CASES_FILE, cases);
+    return found;
+  });
+}
+
+/**
+ * List cases, newest first
+ */
+export async function listCases(status?: CaseStatus): Promise<CaseSummary[]> {
+  const cases = await loadCases();
+  return cases
+    .filter(c => !status || c.status === status)
+    .reverse()
+    .map(toSummary);
+}
+
+export async function getCase(caseId: string): Promise<Case | null> {
+  const cases = await loadCases();
+  return cases.find(c => c.caseId === caseId) || null;
+}
+
+/**
+ * Open a new case. IDs are sequential per year (CASE-2025-0001).
+ */
+export async function createCase(input: {
+  title: string;
+  description?: string;
+  createdBy: string;
+  assignees?: string[];
+}): Promise<Case> {
+  return withLock(CASES_FILE, async () => {
+    const cases = await loadCases();
+    const prefix = `CASE-${new Date().getUTCFullYear()}-`;
+    const sequence = cases.filter(c => c.caseId.startsWith(prefix)).length + 1;
+
+    const created: Case = {
+      caseId: `${prefix}${String(sequence).padStart(4, '0')}`,
+      title: input.title,
+      description: input.description || '',
+      status: 'open',
+      createdBy: input.createdBy,
+      createdAt: new Date().toISOString(),
+      assignees: Array.from(new Set([input.createdBy, ...(input.assignees || [])])),
+      subjects: [],
+      reportIds: [],
+      searches: [],
+      notes: [],
+    };
+    await writeJSON(CASES_FILE, [...cases, created]);
+    return created;
+  });
+}
+
+export async function setCaseStatus(caseId: string, status: CaseStatus, actor: string): Promise<Case | null> {
+  return updateCase(caseId, c => {
+    c.status = status;
+    if (status === 'closed') {
+      c.closedBy = actor;
+      c.closedAt = new Date().toISOString();
+    } else {
+      delete c.closedBy;
+      delete c.closedAt;
+    }
+  });
+}
+
+export async function assignAnalyst(caseId: string, analyst: string): Promise<Case | null> {
+  return updateCase(caseId, c => {
+    if (!c.assignees.includes(analyst)) {
+      c.assignees.push(analyst);
+    }
+  });
+}
+
+export async function unassignAnalyst(caseId: string, analyst: string): Promise<Case | null> {
+  return updateCase(caseId, c => {
+    c.assignees = c.assignees.filter(a => a !== analyst);
+  });
+}
+
+/**
+ * Attach a Roblox account the caller has already verified exists
+ */
+export async function attachSubject(
+  caseId: string,
+  subject: Omit<CaseSubject, 'attachedAt'>
+): Promise<Case | null> {
+  return updateCase(caseId, c => {
+    if (!c.subjects.some(s => s.userId === subject.userId)) {
+      c.subjects.push({ ...subject, attachedAt: new Date().toISOString() });
+    }
+  });
+}
+
+/**
+ * Link a forensic report to its case, attaching the server-verified subject
+ * of the report when given
+ */
+export async function linkReport(
+  caseId: string,
+  reportId: string,
+  subject?: Omit<CaseSubject, 'attachedAt'>
+): Promise<Case | null> {
+  return updateCase(caseId, c => {
+    if (!c.reportIds.includes(reportId)) {
+      c.reportIds.push(reportId);
+    }
+    if (subject && !c.subjects.some(s => s.userId === subject.userId)) {
+      c.subjects.push({ ...subject, attachedAt: new Date().toISOString() });
+    }
+  });
+}
+
+export async function recordSearch(
+  caseId: string,
+  search: Omit<CaseSearch, 'searchedAt'>
+): Promise<Case | null> {
+  return updateCase(caseId, c => {
+    c.searches.push({ ...search, searchedAt: new Date().toISOString() });
+  });
+}
+
+export async function addNote(caseId: string, author: string, text: string): Promise<Case | null> {
+  return updateCase(caseId, c => {
+    c.notes.push({ id: randomUUID(), author, text, createdAt: new Date().toISOString() });
+  });
+}
+
+/**
+ * Number of distinct cases that any of the given reports are linked to
+ */
+export async function countCasesForReports(reportIds: string[]): Promise<number> {
+  const ids = new Set(reportIds);
+  const cases = await loadCases();
+  return cases.filter(c => c.reportIds.some(id => ids.has(id))).length;
+}
@@ -0,0 +1,131 @@
+// FILE: src/app/lib/drift.ts
+// Forensic Mode - Field-level drift between a sealed snapshot and the live profile
+
+import { isRecord } from './forensic';
+
+export interface ProfileChange {
+  field: string;
+  kind: 'changed' | 'added' | 'removed';
+  before?: unknown;
+  after?: unknown;
+  summary: string;
+}
+
+// Scalar fields compared one-to-one: [section, key, label]
+const TRACKED_FIELDS: Array<[string, string, string]> = [
+  ['user', 'username', 'Username'],
+  ['user', 'displayName', 'Display name'],
+  ['user', 'description', 'Description'],
+  ['user', 'isBanned', 'Banned status'],
+  ['counts', 'friends', 'Friend count'],
+  ['counts', 'followers', 'Follower count'],
+  ['counts', 'following', 'Following count'],
+  ['profile', 'bio', 'Bio'],
+];
+
+// List fields compared as sets: [section, key, label]
+const TRACKED_LISTS: Array<[string, string, string]> = [
+  ['profile', 'detectedMentions', 'External mention'],
+  ['profile', 'keywords', 'Keyword flag'],
+  ['history', 'pastDisplayNames', 'Past display name'],
+  ['history', 'pastUsernames', 'Past username'],
+];
+
+function section(snapshot: Record<string, unknown>, name: string): Record<string, unknown> | null {
+  return isRecord(snapshot[name]) ? (snapshot[name] as Record<string, unknown>) : null;
+}
+
+function quote(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
+
+function diffGroups(before: unknown[], after: unknown[]): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+  const index = (groups: unknown[]) =>
+    new Map(groups.filter(isRecord).map(g => [String(g.id), g as Record<string, unknown>]));
+  const beforeById = index(before);
+  const afterById = index(after);
+
+  beforeById.forEach((group, id) => {
+    const current = afterById.get(id);
+    if (!current) {
+      changes.push({
+        field: `groups[${id}]`,
+        kind: 'removed',
+        before: group,
+        summary: `Left group ${quote(group.name)} (${id})`,
+      });
+    } else if (current.role !== group.role) {
+      changes.push({
+        field: `groups[${id}].role`,
+        kind: 'changed',
+        before: group.role,
+        after: current.role,
+        summary: `Role in ${quote(current.name)} changed from ${quote(group.role)} to ${quote(current.role)}`,
+      });
+    }
+  });
+
+  afterById.forEach((group, id) => {
+    if (!beforeById.has(id)) {
+      changes.push({
+        field: `groups[${id}]`,
+        kind: 'added',
+        after: group,
+        summary: `Joined group ${quote(group.name)} (${id})`,
+      });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Compare a sealed snapshot with a freshly fetched one. Only sections present
+ * in the sealed snapshot are compared, so field-selector exclusions don't
+ * show up as drift.
+ */
+export function diffSnapshots(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+
+  TRACKED_FIELDS.forEach(([name, key, label]) => {
+    const old = section(before, name);
+    const current = section(after, name);
+    if (!old || !(key in old)) return;
+
+    const value = current?.[key];
+    if (value !== old[key]) {
+      changes.push({
+        field: `${name}.${key}`,
+        kind: 'changed',
+        before: old[key],
+        after: value,
+        summary: `${label} changed from ${quote(old[key])} to ${quote(value)}`,
+      });
+    }
+  });
+
+  TRACKED_LISTS.forEach(([name, key, label]) => {
+    const old = section(before, name)?.[key];
+    if (!Array.isArray(old)) return;
+
+    const currentList = section(after, name)?.[key];
+    const current = Array.isArray(currentList) ? currentList.map(String) : [];
+    const previous = old.map(String);
+    previous.filter(item => !current.includes(item)).forEach(item => {
+      changes.push({ field: `${name}.${key}`, kind: 'removed', before: item, summary: `${label} removed: ${quote(item)}` });
+    });
+    current.filter(item => !previous.includes(item)).forEach(item => {
+      changes.push({ field: `${name}.${key}`, kind: 'added', after: item, summary: `${label} added: ${quote(item)}` });
+    });
+  });
+
+  if (Array.isArray(before.groups)) {
+    changes.push(...diffGroups(before.groups, Array.isArray(after.groups) ? after.groups : []));
+  }
+
+  return changes;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createCase, getCase, setCaseStatus } from './cases';
+import { sealBatchManifest, sealRowReport } from './evidence';
+import type { BatchJob, JobRowResult } from './jobs';
+import type { ProfileData } from './profile';
+import { getReport } from './reports';
+
+vi.mock('./profile', () => ({
+  fetchProfile: async (userId: string) => ({
+    profile: {
+      user: { userId, username: 'subject', displayName: 'Subject', isBanned: false },
+      profile: { bio: '', detectedMentions: [], keywords: [] },
+      groups: [],
+    } as unknown as ProfileData,
+    provenance: [],
+    raw: {},
+  }),
+}));
+
+function forensicJob(caseId: string): BatchJob {
+  return {
+    id: 'job-1',
+    name: 'Subjects',
+    createdBy: 'analyst@example.com',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    status: 'completed',
+    includeBanned: false,
+    total: 2,
+    processed: 2,
+    counts: {},
+    forensic: { caseId },
+  };
+}
+
+describe('forensic batch evidence', () => {
+  it('numbers rows from 1 in row reports and the manifest', async () => {
+    const { caseId } = await createCase({ title: 'Batch', createdBy: 'analyst@example.com' });
+    const job = forensicJob(caseId);
+
+    const sealed = await sealRowReport({ id: job.id, createdBy: job.createdBy, caseId }, 0, { input: '42', mode: 'userId' }, 42);
+    const rows: JobRowResult[] = [
+      { row: 0, input: '42', status: 'Verified', report: sealed },
+      { row: 1, input: '43', status: 'Verified', reportError: 'User 43 no longer resolves on Roblox' },
+    ];
+    const manifest = await getReport((await sealBatchManifest(job, rows)).reportId);
+
+    expect((await getReport(sealed.reportId))!.meta.batch).toEqual({ jobId: job.id, row: 1 });
+    expect(manifest!.snapshot).toMatchObject({
+      reports: [{ row: 1, input: '42', reportId: sealed.reportId }],
+      unsealed: [{ row: 2, input: '43' }],
+    });
+  });
+
+  it('refuses to seal onto a case closed mid-job', async () => {
+    const { caseId } = await createCase({ title: 'Closed', createdBy: 'analyst@example.com' });
+    const job = forensicJob(caseId);
+    await setCaseStatus(caseId, 'closed', 'lead@example.com');
+
+    await expect(sealRowReport({ id: job.id, createdBy: job.createdBy, caseId }, 0, { input: '42', mode: 'userId' }, 42))
+      .rejects.toThrow('is closed');
+    await expect(sealBatchManifest(job, [])).rejects.toThrow('is closed');
+    expect((await getCase(caseId))!.reportIds).toEqual([]);
+  });
+});
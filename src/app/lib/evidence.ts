@@ -0,0 +1,150 @@
+// FILE: src/app/lib/evidence.ts
+// Forensic Mode - Sealed reports for forensic batch jobs: one per verified row, plus a manifest (server only)
+
+import { saveAuditLog } from './audit';
+import { getCase, linkReport } from './cases';
+import { createForensicReport, type ForensicReport } from './forensic';
+import type { BatchJob, JobRowResult } from './jobs';
+import { fetchProfile } from './profile';
+import { saveReport } from './reports';
+import { signReport } from './signing';
+import { timestampReport } from './timestamp';
+
+export interface SealedReport {
+  reportId: string;
+  hash: string;
+}
+
+/**
+ * The batch's case was closed or deleted; nothing more can be sealed on it
+ */
+export class CaseNotOpenError extends Error {
+  constructor(readonly caseId: string, closed: boolean) {
+    super(closed ? `Case ${caseId} is closed` : `Case ${caseId} no longer exists`);
+    this.name = 'CaseNotOpenError';
+  }
+}
+
+async function requireOpenCase(caseId: string): Promise<void> {
+  const linkedCase = await getCase(caseId);
+  if (!linkedCase || linkedCase.status === 'closed') {
+    throw new CaseNotOpenError(caseId, !!linkedCase);
+  }
+}
+
+/**
+ * Timestamp, sign and store a report, link it to its case and log it. The
+ * case is checked first every time: it can be closed while a batch runs.
+ */
+async function seal(
+  report: ForensicReport,
+  caseId: string,
+  subject?: { userId: string; username: string; displayName: string }
+): Promise<ForensicReport> {
+  await requireOpenCase(caseId);
+  const sealed = await signReport(await timestampReport(report));
+  await saveReport(sealed);
+  await linkReport(caseId, sealed.meta.reportId, subject && { ...subject, attachedBy: sealed.meta.createdBy });
+  await saveAuditLog({
+    reportId: sealed.meta.reportId,
+    createdBy: sealed.meta.createdBy,
+    queryInput: sealed.query.input,
+    queryMode: sealed.query.mode,
+    resultUserId: subject?.userId,
+    snapshotHash: sealed.hash.value,
+    createdAt: sealed.meta.createdAt,
+    caseId,
+  });
+  return sealed;
+}
+
+/**
+ * Capture a verified row's profile live from Roblox and seal it into its
+ * own report, the same evidence a single forensic lookup produces. `row`
+ * is the job's 0-based row; the report records it numbered from 1. The
+ * case is checked before capturing, so a closed case costs no Roblox calls.
+ */
+export async function sealRowReport(
+  job: { id: string; createdBy: string; caseId: string },
+  row: number,
+  query: { input: string; mode: 'userId' | 'username' },
+  userId: number
+): Promise<SealedReport> {
+  await requireOpenCase(job.caseId);
+  const result = await fetchProfile(String(userId), 'forensic-batch', { bypassCache: true });
+  if (!result) {
+    throw new Error(`User ${userId} no longer resolves on Roblox`);
+  }
+
+  const report = await createForensicReport(
+    { ...result.profile },
+    query,
+    { email: job.createdBy },
+    job.caseId,
+    result.provenance,
+    'server'
+  );
+  report.meta.batch = { jobId: job.id, row: row + 1 };
+
+  const { user } = result.profile;
+  const sealed = await seal(report, job.caseId, {
+    userId: user.userId,
+    username: user.username,
+    displayName: user.displayName,
+  });
+  return { reportId: sealed.meta.reportId, hash: sealed.hash.value };
+}
+
+/**
+ * Seal the batch-level manifest: every row report's ID and hash, in row
+ * order, so the manifest's own hash covers all of them. Verified rows
+ * whose report could not be sealed are listed with the reason. Rows are
+ * numbered from 1, as in the job's exports.
+ */
+export async function sealBatchManifest(job: BatchJob, rows: JobRowResult[]): Promise<SealedReport> {
+  if (!job.forensic) {
+    throw new Error(`Batch job ${job.id} is not a forensic batch`);
+  }
+
+  const snapshot = {
+    batch: {
+      jobId: job.id,
+      name: job.name,
+      createdBy: job.createdBy,
+      createdAt: job.createdAt,
+      total: job.total,
+      processed: job.processed,
+    },
+    reports: rows
+      .filter(out => out.report)
+      .map(out => ({
+        row: out.row + 1,
+        input: out.input,
+        ...(out.reference && { reference: out.reference }),
+        userId: String(out.user?.id ?? ''),
+        reportId: out.report!.reportId,
+        hash: out.report!.hash,
+      })),
+    unsealed: rows
+      .filter(out => out.reportError)
+      .map(out => ({
+        row: out.row + 1,
+        input: out.input,
+        userId: String(out.user?.id ?? ''),
+        error: out.reportError,
+      })),
+  };
+
+  const report = await createForensicReport(
+    snapshot,
+    { input: job.name, mode: 'batch' },
+    { email: job.createdBy },
+    job.forensic.caseId,
+    [],
+    'server'
+  );
+  report.meta.batch = { jobId: job.id };
+
+  const sealed = await seal(report, job.forensic.caseId);
+  return { reportId: sealed.meta.reportId, hash: sealed.hash.value };
+}
@@ -0,0 +1,47 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { renderExport } from './exports';
+import type { BatchJob, JobRowResult } from './jobs';
+
+const JOB: BatchJob = {
+  id: 'job-1',
+  name: 'Reports',
+  createdBy: 'analyst@example.com',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  status: 'completed',
+  includeBanned: false,
+  total: 1,
+  processed: 1,
+  counts: {},
+};
+
+const ROWS: JobRowResult[] = [{
+  row: 0,
+  input: '=HYPERLINK("http://evil.example","click")',
+  reference: '@SUM(1+1)',
+  status: 'Not Found',
+  details: '-2+3',
+}];
+
+describe('renderExport', () => {
+  it('quotes formula-like text in CSV', () => {
+    const { body } = renderExport('csv', JOB, ROWS);
+
+    expect(body).toContain(`"'=HYPERLINK(""http://evil.example"",""click"")"`);
+    expect(body).toContain(`"'@SUM(1+1)"`);
+    expect(body).toContain(`"'-2+3"`);
+  });
+
+  it('keeps formula-like text as is in XLSX, marked quote-prefixed', () => {
+    const { body } = renderExport('xlsx', JOB, ROWS);
+    const sheet = strFromU8(unzipSync(body as Uint8Array)['xl/worksheets/sheet1.xml']);
+
+    expect(sheet).toContain('<c r="B2" s="2" t="inlineStr"><is><t xml:space="preserve">@SUM(1+1)</t></is></c>');
+    expect(sheet).toContain('<c r="C2" s="2" t="inlineStr"><is><t xml:space="preserve">=HYPERLINK(&quot;http://evil.example&quot;,&quot;click&quot;)</t></is></c>');
+    expect(sheet).toMatch(/<c r="[A-Z]+2" s="2" t="inlineStr"><is><t xml:space="preserve">-2\+3<\/t><\/is><\/c>/);
+    expect(sheet).toContain('<c r="E2" t="inlineStr"><is><t xml:space="preserve">Not Found</t></is></c>');
+    // Row numbers stay numbers
+    expect(sheet).toMatch(/<c r="A2"><v>1<\/v><\/c>/);
+  });
+});
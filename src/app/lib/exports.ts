@@ -0,0 +1,183 @@
+// FILE: src/app/lib/exports.ts
+// Batch jobs - Render job results as CSV, XLSX, JSON or NDJSON downloads
+
+import Papa from 'papaparse';
+import { clusterIdentities } from './identities';
+import { normalizeInput, type InputType } from './input';
+import type { BatchJob, JobRowResult, RowStatus } from './jobs';
+import { renderXlsx, type CellValue } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv;charset=utf-8', extension: 'csv' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+  json: { contentType: 'application/json;charset=utf-8', extension: 'json' },
+  ndjson: { contentType: 'application/x-ndjson;charset=utf-8', extension: 'ndjson' },
+};
+
+// Suggestions flattened into spreadsheet columns; JSON keeps all of them
+const SUGGESTION_COLUMNS = 3;
+
+export interface ExportRow {
+  row: number;
+  reference: string | null;
+  input: string;
+  inputType: InputType;
+  status: RowStatus;
+  user: {
+    id: number;
+    name: string;
+    displayName: string;
+    hasVerifiedBadge: boolean;
+    created: string | null;
+    isBanned: boolean | null;
+  } | null;
+  requestedAsPastUsername: boolean;
+  // The first row that resolved to the same account, if this one repeats it
+  duplicateOfRow: number | null;
+  suggestions: Array<{
+    id: number;
+    name: string;
+    displayName: string;
+    confidence: number;
+    breakdown: string[];
+  }>;
+  details: string | null;
+  // Forensic batches only
+  report: { reportId: string; hash: string } | null;
+  reportError: string | null;
+}
+
+export function isExportFormat(format: string): format is ExportFormat {
+  return Object.keys(EXPORT_FORMATS).includes(format);
+}
+
+/**
+ * One result row with every field the job knows, null where it doesn't
+ */
+export function toExportRow(out: JobRowResult, duplicateOf?: number): ExportRow {
+  const parsed = normalizeInput(out.input);
+  return {
+    // Jobs count rows from 0; exports count them like a spreadsheet does
+    row: out.row + 1,
+    reference: out.reference || null,
+    input: out.input,
+    inputType: parsed.type,
+    status: out.status,
+    user: out.user
+      ? {
+          id: out.user.id,
+          name: out.user.name,
+          displayName: out.user.displayName,
+          hasVerifiedBadge: out.user.hasVerifiedBadge,
+          created: out.user.created ?? null,
+          isBanned: out.user.isBanned ?? null,
+        }
+      : null,
+    requestedAsPastUsername: !!out.user && parsed.type === 'username'
+      && out.user.name.toLowerCase() !== parsed.value.toLowerCase(),
+    duplicateOfRow: duplicateOf === undefined ? null : duplicateOf + 1,
+    suggestions: (out.suggestions || []).map(s => ({
+      id: s.user.id,
+      name: s.user.name,
+      displayName: s.user.displayName,
+      confidence: s.confidence,
+      breakdown: s.breakdown,
+    })),
+    details: out.details || null,
+    report: out.report || null,
+    reportError: out.reportError || null,
+  };
+}
+
+function exportColumns(rows: ExportRow[]): string[] {
+  const suggestionColumns = Array.from({ length: SUGGESTION_COLUMNS }, (_, i) => [
+    `Suggestion ${i + 1} ID`,
+    `Suggestion ${i + 1} Username`,
+    `Suggestion ${i + 1} Confidence`,
+  ]).flat();
+  return [
+    'Row',
+    ...(rows.some(r => r.reference) ? ['Reference'] : []),
+    'Input',
+    'Input Type',
+    'Status',
+    'User ID',
+    'Username',
+    'Display Name',
+    'Verified Badge',
+    'Created',
+    'Banned',
+    'Requested As Past Username',
+    'Duplicate Of Row',
+    ...suggestionColumns,
+    'Details',
+    ...(rows.some(r => r.report || r.reportError) ? ['Report ID', 'Report SHA-256', 'Report Error'] : []),
+  ];
+}
+
+function flatten(out: ExportRow): Record<string, CellValue> {
+  const flat: Record<string, CellValue> = {
+    Row: out.row,
+    Reference: out.reference,
+    Input: out.input,
+    'Input Type': out.inputType,
+    Status: out.status,
+    'User ID': out.user?.id,
+    Username: out.user?.name,
+    'Display Name': out.user?.displayName,
+    'Verified Badge': out.user?.hasVerifiedBadge,
+    Created: out.user?.created,
+    Banned: out.user?.isBanned,
+    'Requested As Past Username': out.user ? out.requestedAsPastUsername : null,
+    'Duplicate Of Row': out.duplicateOfRow,
+    Details: out.details,
+    'Report ID': out.report?.reportId,
+    'Report SHA-256': out.report?.hash,
+    'Report Error': out.reportError,
+  };
+  out.suggestions.slice(0, SUGGESTION_COLUMNS).forEach((s, i) => {
+    flat[`Suggestion ${i + 1} ID`] = s.id;
+    flat[`Suggestion ${i + 1} Username`] = s.name;
+    flat[`Suggestion ${i + 1} Confidence`] = s.confidence;
+  });
+  return flat;
+}
+
+/**
+ * Render a job's results as a download. CSV and XLSX get one flat row per
+ * input; JSON wraps the job with its rows and the accounts they resolved
+ * to, NDJSON is one row per line.
+ */
+export function renderExport(
+  format: ExportFormat,
+  job: BatchJob,
+  results: JobRowResult[]
+): { body: string | Uint8Array; contentType: string; filename: string } {
+  const identities = clusterIdentities(results);
+  const primaryRow = new Map<number, number>();
+  identities.forEach(identity => identity.rows.slice(1).forEach(row => primaryRow.set(row, identity.rows[0])));
+  const rows = results.map(out => toExportRow(out, primaryRow.get(out.row)));
+  const { contentType, extension } = EXPORT_FORMATS[format];
+  const filename = `${job.name.replace(/[^a-zA-Z0-9_-]+/g, '_')}_results.${extension}`;
+
+  let body: string | Uint8Array;
+  if (format === 'json') {
+    body = JSON.stringify({
+      job,
+      rows,
+      identities: identities.map(identity => ({ ...identity, rows: identity.rows.map(row => row + 1) })),
+    }, null, 2);
+  } else if (format === 'ndjson') {
+    body = rows.map(r => JSON.stringify(r)).join('\n') + (rows.length > 0 ? '\n' : '');
+  } else {
+    const columns = exportColumns(rows);
+    const flat = rows.map(flatten);
+    body = format === 'xlsx'
+      ? renderXlsx(job.name, columns, flat)
+      // Inputs, names and bios are user text; keep them from running as formulas
+      : Papa.unparse({ fields: columns, data: flat.map(r => columns.map(c => r[c] ?? '')) }, { escapeFormulae: true });
+  }
+  return { body, contentType, filename };
+}
@@ -0,0 +1,90 @@
+// FILE: src/app/lib/fixtures.ts
+// Roblox API - Record/replay of upstream responses for offline runs (server only)
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// ROBLOX_FIXTURE_MODE=record saves every upstream response; =replay serves
+// them back and never touches the network
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+export const FIXTURE_MODE: FixtureMode =
+  process.env.ROBLOX_FIXTURE_MODE === 'record' || process.env.ROBLOX_FIXTURE_MODE === 'replay'
+    ? process.env.ROBLOX_FIXTURE_MODE
+    : 'off';
+
+const FIXTURE_DIR = process.env.ROBLOX_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'roblox');
+
+interface Fixture {
+  key: string;
+  recordedAt: string;
+  request: {
+    method: string;
+    url: string;
+    body?: string;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    // Base64 so images round-trip byte for byte
+    body: string;
+  };
+}
+
+// Headers worth keeping; the rest are per-request noise
+const KEPT_HEADERS = ['content-type', 'retry-after'];
+
+function fixtureFile(key: string): string {
+  return path.join(FIXTURE_DIR, `${createHash('sha256').update(key).digest('hex')}.json`);
+}
+
+/**
+ * The recorded response for a request key, or null if none was recorded
+ */
+export async function replayFixture(key: string): Promise<Response | null> {
+  let fixture: Fixture;
+  try {
+    fixture = JSON.parse(await fs.readFile(fixtureFile(key), 'utf8'));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw err;
+  }
+  return new Response(Buffer.from(fixture.response.body, 'base64'), {
+    status: fixture.response.status,
+    headers: fixture.response.headers,
+  });
+}
+
+/**
+ * Save a response under a request key and hand back an unread copy of it.
+ * Throttling and 5xx responses are not recorded so replays stay clean.
+ */
+export async function recordFixture(
+  key: string,
+  request: Fixture['request'],
+  response: Response
+): Promise<Response> {
+  const body = Buffer.from(await response.arrayBuffer());
+  const headers: Record<string, string> = {};
+  KEPT_HEADERS.forEach(name => {
+    const value = response.headers.get(name);
+    if (value !== null) headers[name] = value;
+  });
+
+  if (response.status !== 429 && response.status < 500) {
+    const fixture: Fixture = {
+      key,
+      recordedAt: new Date().toISOString(),
+      request,
+      response: { status: response.status, headers, body: body.toString('base64') },
+    };
+    const file = fixtureFile(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2), 'utf8');
+  }
+
+  return new Response(body, { status: response.status, headers });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createForensicReport, generateReportHTML, REPORT_CSP } from './forensic';
+import { escapeHtml } from './html';
+
+const HOSTILE = [
+  '<script>alert(1)</script>',
+  '"><img src=x onerror=alert(1)>',
+  '</style><script>alert(1)</script>',
+  'javascript:alert(1)',
+];
+
+async function hostileReport(payload: string) {
+  return createForensicReport(
+    {
+      user: {
+        userId: '1',
+        username: payload,
+        displayName: payload,
+        description: payload,
+        createdAt: '2020-01-01T00:00:00.000Z',
+        isBanned: false,
+      },
+      profile: { bio: payload, detectedMentions: [payload], keywords: [`flag:${payload}`] },
+      groups: [{ name: payload, role: payload, id: '1', joinedAt: '', isOwner: false, riskTag: payload }],
+    },
+    { input: payload, mode: 'username' },
+    { email: payload },
+    payload
+  );
+}
+
+describe('generateReportHTML', () => {
+  it.each(HOSTILE)('escapes hostile profile text: %s', async payload => {
+    const output = generateReportHTML(await hostileReport(payload));
+
+    if (payload.includes('<')) {
+      expect(output).not.toContain(payload);
+      expect(output).toContain('&lt;');
+    }
+    expect(output).not.toMatch(/<script/i);
+    expect(output).not.toMatch(/<img/i);
+    // Exactly the one stylesheet the template opens and closes itself
+    expect(output.match(/<\/style>/gi)).toHaveLength(1);
+  });
+
+  it('keeps javascript: text inert', async () => {
+    const output = generateReportHTML(await hostileReport('javascript:alert(1)'));
+
+    expect(output).not.toMatch(/(href|src|action)\s*=\s*["']?javascript:/i);
+  });
+
+  it('embeds the report CSP, which forbids scripts', async () => {
+    const output = generateReportHTML(await hostileReport(HOSTILE[0]));
+
+    expect(output).toContain(`<meta http-equiv="Content-Security-Policy" content="${escapeHtml(REPORT_CSP)}">`);
+    expect(REPORT_CSP).toContain("default-src 'none'");
+    expect(REPORT_CSP).not.toMatch(/script-src/);
+  });
+});
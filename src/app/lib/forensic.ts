@@ -1,6 +1,10 @@
 // FILE: src/app/lib/forensic.ts
 // Forensic Mode - Evidence generation and hashing utilities
 
+import { html } from './html';
+import { verifyTimestampToken, type ReportTimestamp } from './timestamp';
+import type { ProfileChange } from './drift';
+
 export interface ForensicReport {
   meta: {
     reportId: string;
@@ -9,27 +13,99 @@ export interface ForensicReport {
     appVersion: string;
     forensicMode: boolean;
     caseId?: string;
+    // Who fetched the snapshot; absent on reports that predate server capture
+    capture?: SnapshotCapture;
+    // Present on redacted copies; the sealed original keeps the full snapshot
+    redaction?: {
+      profile: string;
+      originalHash: string;
+      maskedFields: string[];
+    };
+    // Present on reports sealed by a forensic batch job; the manifest has no row
+    batch?: {
+      jobId: string;
+      // Numbered from 1, matching the manifest and the job's exports
+      row?: number;
+    };
   };
   query: {
     input: string;
-    mode: 'userId' | 'username' | 'displayName';
+    // 'batch' is a batch manifest, whose input is the job name
+    mode: 'userId' | 'username' | 'displayName' | 'batch';
   };
-  sources: Array<{
-    name: string;
-    fetchedAt: string;
-  }>;
+  sources: ReportSource[];
   snapshot: Record<string, unknown>;
   hash: {
     algo: string;
     value: string;
+    // Absent on reports created before canonical hashing was introduced
+    canonicalization?: HashCanonicalization;
+    // SHA-256 of the canonical `sources`; absent on reports sealed before
+    // provenance was covered by the signature
+    sourcesHash?: string;
+    // Set when the report was sealed with a timestamp; the token is then
+    // covered by the signature and may not go missing
+    timestamped?: boolean;
+    // SHA-256 of the canonical `drift`, on follow-ups sealed since the
+    // reported changes were covered by the signature
+    driftHash?: string;
+  };
+  signature?: {
+    algo: 'Ed25519';
+    keyId: string;
+    value: string; // base64
+    signedAt: string;
+  };
+  // RFC 3161 token over hash.value, present when a TSA is configured
+  timestamp?: ReportTimestamp;
+  // Present on follow-up reports: what changed since the base report
+  drift?: {
+    baseReportId: string;
+    baseHash: string;
+    baseCreatedAt: string;
+    changes: ProfileChange[];
   };
   chainOfCustody: Array<{
     event: string;
     actor: string;
     at: string;
+    // SHA-256 of an exported artifact (e.g. the rendered PDF) the event refers to
+    artifactHash?: string;
+    // Field-level drift found when the report was re-verified against the live profile
+    changes?: ProfileChange[];
   }>;
 }
 
+/**
+ * How the snapshot is serialized before hashing:
+ * - 'RFC8785-JCS': canonical JSON covering every nested field
+ * - 'legacy-top-level-keys': original scheme (JSON.stringify with a replacer
+ *   array of top-level keys), which silently drops most nested fields
+ */
+export type HashCanonicalization = 'RFC8785-JCS' | 'legacy-top-level-keys';
+
+export const HASH_CANONICALIZATION: HashCanonicalization = 'RFC8785-JCS';
+
+/**
+ * 'server': the snapshot was fetched by this server from Roblox when the report
+ * was generated. 'client-unverified': the browser submitted the snapshot, so
+ * its contents are only as trustworthy as the analyst's request.
+ */
+export type SnapshotCapture = 'server' | 'client-unverified';
+
+/**
+ * Provenance of one upstream call that contributed to the snapshot
+ */
+export interface ReportSource {
+  name: string;
+  fetchedAt: string;
+  url?: string;
+  httpStatus?: number;
+  responseHash?: string;
+  failed?: boolean;
+  error?: string;
+}
+
 export interface FieldSelector {
   user: boolean;
   counts: boolean;
@@ -47,15 +123,75 @@ export const DEFAULT_FIELD_SELECTOR: FieldSelector = {
 };
 
 /**
- * Generate SHA-256 hash of data snapshot
+ * Serialize a JSON value canonically (RFC 8785 JCS): object keys sorted by
+ * UTF-16 code units at every depth, no whitespace, ES number formatting
  */
-export async function generateHash(data: Record<string, unknown>): Promise<string> {
-  const normalized = JSON.stringify(data, Object.keys(data).sort());
-  const msgBuffer = new TextEncoder().encode(normalized);
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error('Cannot canonicalize non-finite number');
+    }
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const members = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+    return `{${members.join(',')}}`;
+  }
+  throw new Error(`Cannot canonicalize value of type ${typeof value}`);
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const msgBuffer = new TextEncoder().encode(text);
   const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
   const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  return hashHex;
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * SHA-256 of a report's provenance, canonicalized like the snapshot
+ */
+export async function hashSources(sources: ReportSource[]): Promise<string> {
+  return sha256Hex(canonicalize(sources));
+}
+
+/**
+ * SHA-256 of a follow-up's drift (base report and changes), canonicalized
+ * like the snapshot
+ */
+export async function hashDrift(drift: NonNullable<ForensicReport['drift']>): Promise<string> {
+  return sha256Hex(canonicalize(drift));
+}
+
+/**
+ * Serialize a snapshot the way it is hashed
+ */
+export function serializeSnapshot(
+  data: Record<string, unknown>,
+  canonicalization: HashCanonicalization = HASH_CANONICALIZATION
+): string {
+  return canonicalization === 'legacy-top-level-keys'
+    ? JSON.stringify(data, Object.keys(data).sort())
+    : canonicalize(data);
+}
+
+/**
+ * Generate SHA-256 hash of data snapshot
+ */
+export async function generateHash(
+  data: Record<string, unknown>,
+  canonicalization: HashCanonicalization = HASH_CANONICALIZATION
+): Promise<string> {
+  return sha256Hex(serializeSnapshot(data, canonicalization));
 }
 
 /**
@@ -63,9 +199,11 @@ export async function generateHash(data: Record<string, unknown>): Promise<strin
  */
 export async function createForensicReport(
   snapshot: Record<string, unknown>,
-  query: { input: string; mode: 'userId' | 'username' | 'displayName' },
+  query: ForensicReport['query'],
   user: { email?: string; name?: string },
-  caseId?: string
+  caseId?: string,
+  sources: ReportSource[] = [],
+  capture: SnapshotCapture = 'client-unverified'
 ): Promise<ForensicReport> {
   const reportId = crypto.randomUUID();
   const createdAt = new Date().toISOString();
@@ -79,17 +217,16 @@ export async function createForensicReport(
       appVersion: '1.0.0',
       forensicMode: true,
       caseId,
+      capture,
     },
     query,
-    sources: [
-      { name: 'roblox.users', fetchedAt: createdAt },
-      { name: 'roblox.groups', fetchedAt: createdAt },
-      { name: 'roblox.friends', fetchedAt: createdAt },
-    ],
+    sources,
     snapshot,
     hash: {
       algo: 'SHA-256',
       value: hash,
+      canonicalization: HASH_CANONICALIZATION,
+      sourcesHash: await hashSources(sources),
     },
     chainOfCustody: [
       {
@@ -103,6 +240,19 @@ export async function createForensicReport(
   return report;
 }
 
+/**
+ * The field selector a filtered snapshot was produced with
+ */
+export function selectorForSnapshot(snapshot: Record<string, unknown>): FieldSelector {
+  return {
+    user: 'user' in snapshot,
+    counts: 'counts' in snapshot,
+    profile: 'profile' in snapshot,
+    groups: 'groups' in snapshot,
+    history: 'history' in snapshot,
+  };
+}
+
 /**
  * Filter snapshot data based on field selector
  */
@@ -134,7 +284,9 @@ export function filterSnapshotFields(snapshot: Record<string, unknown>, selector
 export function addCustodyEvent(
   report: ForensicReport,
   event: string,
-  actor: string
+  actor: string,
+  artifactHash?: string,
+  changes?: ProfileChange[]
 ): ForensicReport {
   return {
     ...report,
@@ -144,17 +296,43 @@ export function addCustodyEvent(
         event,
         actor,
         at: new Date().toISOString(),
+        artifactHash,
+        changes,
       },
     ],
   };
 }
 
 /**
- * Verify report integrity by checking hash
+ * Canonicalization a report was hashed with (older reports predate the field)
+ */
+export function getReportCanonicalization(report: ForensicReport): HashCanonicalization {
+  return report.hash.canonicalization || 'legacy-top-level-keys';
+}
+
+/**
+ * Verify report integrity by checking hash, and the timestamp token over it
+ * when the report carries one
  */
 export async function verifyReportIntegrity(report: ForensicReport): Promise<boolean> {
-  const computedHash = await generateHash(report.snapshot);
-  return computedHash === report.hash.value;
+  const serialized = serializeSnapshot(report.snapshot, getReportCanonicalization(report));
+  if ((await sha256Hex(serialized)) !== report.hash.value) {
+    return false;
+  }
+  if (report.hash.sourcesHash && (await hashSources(report.sources)) !== report.hash.sourcesHash) {
+    return false;
+  }
+  if (report.hash.driftHash && (!report.drift || (await hashDrift(report.drift)) !== report.hash.driftHash)) {
+    return false;
+  }
+  if (report.hash.timestamped && !report.timestamp) {
+    return false;
+  }
+  if (report.timestamp) {
+    const timestamp = await verifyTimestampToken(report.timestamp, new TextEncoder().encode(serialized));
+    return timestamp.valid;
+  }
+  return true;
 }
 
 interface GroupData {
@@ -164,24 +342,51 @@ interface GroupData {
   riskTag: string;
 }
 
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const RISK_COLORS: Record<string, string> = {
+  high: 'red',
+  med: 'orange',
+  low: 'green',
+};
+
+/**
+ * Content-Security-Policy for rendered reports: no scripts, no network access,
+ * inline styles only. Sent as a header and repeated in a <meta> tag so the
+ * policy still applies when the file is opened from disk or a blob URL.
+ */
+export const REPORT_CSP =
+  "default-src 'none'; style-src 'unsafe-inline'; img-src data:; base-uri 'none'; form-action 'none'; frame-ancestors 'none'";
+
 /**
- * Generate PDF-friendly HTML for forensic report
+ * Generate PDF-friendly HTML for forensic report.
+ * Every interpolated value is escaped by the `html` tag; snapshot fields are
+ * attacker-controlled (bios, display names, group names).
  */
 export function generateReportHTML(report: ForensicReport): string {
   const snapshot = report.snapshot;
+  const user = isRecord(snapshot.user) ? snapshot.user : null;
+  const counts = isRecord(snapshot.counts) ? snapshot.counts : null;
+  const groups = Array.isArray(snapshot.groups) ? (snapshot.groups as GroupData[]) : [];
+  const profile = isRecord(snapshot.profile) ? snapshot.profile : null;
+  const keywords = profile && Array.isArray(profile.keywords) ? (profile.keywords as string[]) : [];
+  const mentions = profile && Array.isArray(profile.detectedMentions) ? (profile.detectedMentions as string[]) : [];
 
-  return `
+  return html`
 <!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${REPORT_CSP}">
   <title>Forensic Report ${report.meta.reportId}</title>
   <style>
     body { font-family: Arial, sans-serif; max-width: 800px; margin: 40px auto; padding: 20px; }
     .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px; border-radius: 10px; margin-bottom: 30px; }
     .section { margin: 30px 0; padding: 20px; border: 1px solid #e0e0e0; border-radius: 8px; }
     .label { font-weight: bold; color: #555; margin-top: 10px; }
-    .value { margin-left: 20px; color: #333; }
+    .value { margin-left: 20px; color: #333; white-space: pre-wrap; }
     .hash { font-family: monospace; font-size: 12px; word-break: break-all; background: #f5f5f5; padding: 10px; border-radius: 4px; }
     .chain { border-left: 3px solid #667eea; padding-left: 15px; margin: 10px 0; }
     .timestamp { color: #888; font-size: 12px; }
@@ -209,10 +414,24 @@ export function generateReportHTML(report: ForensicReport): string {
     <div class="value">${report.meta.createdAt}</div>
     <div class="label">App Version:</div>
     <div class="value">${report.meta.appVersion}</div>
-    ${report.meta.caseId ? `
+    ${report.meta.capture && html`
+    <div class="label">Snapshot Capture:</div>
+    <div class="value"${report.meta.capture !== 'server' ? html` style="color: red; font-weight: bold;"` : ''}>${
+      report.meta.capture === 'server' ? 'Fetched server-side from Roblox' : 'UNVERIFIED - submitted by client'
+    }</div>
+    `}
+    ${report.meta.caseId && html`
     <div class="label">Case ID:</div>
     <div class="value">${report.meta.caseId}</div>
-    ` : ''}
+    `}
+    ${report.meta.redaction && html`
+    <div class="label">Redaction Profile:</div>
+    <div class="value" style="color: orange; font-weight: bold;">REDACTED COPY - ${report.meta.redaction.profile}</div>
+    <div class="label">Masked Fields:</div>
+    <div class="value">${report.meta.redaction.maskedFields.join(', ')}</div>
+    <div class="label">Original Snapshot Hash:</div>
+    <div class="hash">${report.meta.redaction.originalHash}</div>
+    `}
   </div>
 
   <div class="section">
@@ -223,85 +442,113 @@ export function generateReportHTML(report: ForensicReport): string {
     <div class="value">${report.query.mode}</div>
   </div>
 
+  ${report.drift && html`
+  <div class="section">
+    <h2>Changes Since Base Report</h2>
+    <div class="label">Base Report:</div>
+    <div class="value">${report.drift.baseReportId} (${new Date(report.drift.baseCreatedAt).toLocaleString()})</div>
+    <div class="label">Base Snapshot Hash:</div>
+    <div class="hash">${report.drift.baseHash}</div>
+    ${report.drift.changes.length === 0
+      ? html`<p>No changes detected: the live profile matches the base report.</p>`
+      : html`<ul>${report.drift.changes.map(c => html`<li>${c.summary}</li>`)}</ul>`}
+  </div>
+  `}
+
   <div class="section">
     <h2>User Profile Snapshot</h2>
-    ${snapshot.user && typeof snapshot.user === 'object' && snapshot.user !== null ? `
+    ${user ? html`
       <div class="label">Username:</div>
-      <div class="value">@${(snapshot.user as Record<string, unknown>).username || 'N/A'}</div>
+      <div class="value">@${user.username || 'N/A'}</div>
       <div class="label">Display Name:</div>
-      <div class="value">${(snapshot.user as Record<string, unknown>).displayName || 'N/A'}</div>
+      <div class="value">${user.displayName || 'N/A'}</div>
       <div class="label">User ID:</div>
-      <div class="value">${(snapshot.user as Record<string, unknown>).userId || 'N/A'}</div>
+      <div class="value">${user.userId || 'N/A'}</div>
       <div class="label">Account Created:</div>
-      <div class="value">${(snapshot.user as Record<string, unknown>).createdAt ? new Date((snapshot.user as Record<string, unknown>).createdAt as string).toLocaleDateString() : 'N/A'}</div>
+      <div class="value">${user.createdAt ? new Date(user.createdAt as string).toLocaleDateString() : 'N/A'}</div>
       <div class="label">Description:</div>
-      <div class="value">${(snapshot.user as Record<string, unknown>).description || 'None'}</div>
-      ${(snapshot.user as Record<string, unknown>).isBanned ? '<div class="value" style="color: red; font-weight: bold;">⚠️ ACCOUNT BANNED</div>' : ''}
-    ` : '<p>User data not available</p>'}
+      <div class="value">${user.description || 'None'}</div>
+      ${user.isBanned && html`<div class="value" style="color: red; font-weight: bold;">⚠️ ACCOUNT BANNED</div>`}
+    ` : html`<p>User data not available</p>`}
   </div>
 
-  ${snapshot.counts && typeof snapshot.counts === 'object' && snapshot.counts !== null ? `
+  ${counts && html`
   <div class="section">
     <h2>Social Metrics</h2>
     <table>
       <tr><th>Metric</th><th>Count</th></tr>
-      <tr><td>Friends</td><td>${(snapshot.counts as Record<string, unknown>).friends || 'N/A'}</td></tr>
-      <tr><td>Followers</td><td>${(snapshot.counts as Record<string, unknown>).followers || 'N/A'}</td></tr>
-      <tr><td>Following</td><td>${(snapshot.counts as Record<string, unknown>).following || 'N/A'}</td></tr>
+      <tr><td>Friends</td><td>${counts.friends || 'N/A'}</td></tr>
+      <tr><td>Followers</td><td>${counts.followers || 'N/A'}</td></tr>
+      <tr><td>Following</td><td>${counts.following || 'N/A'}</td></tr>
     </table>
   </div>
-  ` : ''}
+  `}
 
-  ${snapshot.groups && Array.isArray(snapshot.groups) && snapshot.groups.length > 0 ? `
+  ${groups.length > 0 && html`
   <div class="section">
     <h2>Group Memberships</h2>
     <table>
       <tr><th>Group Name</th><th>Role</th><th>Risk</th></tr>
-      ${(snapshot.groups as GroupData[]).map((g: GroupData) => `
+      ${groups.map(g => html`
         <tr>
           <td>${g.name}</td>
           <td>${g.role} ${g.isOwner ? '(Owner)' : ''}</td>
-          <td><span style="color: ${g.riskTag === 'high' ? 'red' : g.riskTag === 'med' ? 'orange' : 'green'}">${g.riskTag.toUpperCase()}</span></td>
+          <td><span style="color: ${RISK_COLORS[g.riskTag] || 'gray'}">${String(g.riskTag || '').toUpperCase()}</span></td>
         </tr>
-      `).join('')}
+      `)}
     </table>
   </div>
-  ` : ''}
+  `}
 
-  ${snapshot.profile && typeof snapshot.profile === 'object' && snapshot.profile !== null && (Array.isArray((snapshot.profile as Record<string, unknown>).keywords) && (snapshot.profile as Record<string, unknown>).keywords.length > 0 || Array.isArray((snapshot.profile as Record<string, unknown>).detectedMentions) && (snapshot.profile as Record<string, unknown>).detectedMentions.length > 0) ? `
+  ${(keywords.length > 0 || mentions.length > 0) && html`
   <div class="section">
     <h2>Detected Flags & Mentions</h2>
-    ${Array.isArray((snapshot.profile as Record<string, unknown>).keywords) && (snapshot.profile as Record<string, unknown>).keywords.length > 0 ? `
+    ${keywords.length > 0 && html`
       <div class="label">Keyword Flags:</div>
       <div class="value">
-        ${((snapshot.profile as Record<string, unknown>).keywords as string[]).map((kw: string) => `<span class="flag">${kw.replace('flag:', '')}</span>`).join(' ')}
+        ${keywords.map(kw => html`<span class="flag">${String(kw).replace('flag:', '')}</span> `)}
       </div>
-    ` : ''}
-    ${Array.isArray((snapshot.profile as Record<string, unknown>).detectedMentions) && (snapshot.profile as Record<string, unknown>).detectedMentions.length > 0 ? `
+    `}
+    ${mentions.length > 0 && html`
       <div class="label">External Mentions:</div>
       <div class="value">
-        ${((snapshot.profile as Record<string, unknown>).detectedMentions as string[]).map((m: string) => `<span class="flag">${m}</span>`).join(' ')}
+        ${mentions.map(m => html`<span class="flag">${m}</span> `)}
       </div>
-    ` : ''}
+    `}
   </div>
-  ` : ''}
+  `}
 
   <div class="section">
     <h2>Data Sources</h2>
-    ${report.sources.map(s => `
+    ${report.sources.length === 0 && html`<p>No fetch provenance was recorded for this snapshot.</p>`}
+    ${report.sources.map(s => html`
       <div class="chain">
-        <strong>${s.name}</strong><br>
-        <span class="timestamp">Fetched: ${new Date(s.fetchedAt).toLocaleString()}</span>
+        <strong>${s.name}</strong>${s.failed && html` <span style="color: red;">(FAILED${s.error && html`: ${s.error}`})</span>`}<br>
+        ${s.url && html`<span class="timestamp">${s.url}</span><br>`}
+        <span class="timestamp">Fetched: ${new Date(s.fetchedAt).toLocaleString()}${s.httpStatus !== undefined && html` • HTTP ${s.httpStatus}`}</span>
+        ${s.responseHash && html`<div class="hash">Response SHA-256: ${s.responseHash}</div>`}
       </div>
-    `).join('')}
+    `)}
   </div>
 
   <div class="section">
     <h2>Cryptographic Hash</h2>
     <div class="label">Algorithm:</div>
     <div class="value">${report.hash.algo}</div>
+    ${report.hash.canonicalization && html`
+    <div class="label">Canonicalization:</div>
+    <div class="value">${report.hash.canonicalization}</div>
+    `}
     <div class="label">Hash Value:</div>
     <div class="hash">${report.hash.value}</div>
+    ${report.signature && html`
+    <div class="label">Signature (${report.signature.algo}, key ${report.signature.keyId}):</div>
+    <div class="hash">${report.signature.value}</div>
+    `}
+    ${report.timestamp && html`
+    <div class="label">RFC 3161 Timestamp (${report.timestamp.tsa}):</div>
+    <div class="value">${report.timestamp.genTime} • serial ${report.timestamp.serialNumber}</div>
+    `}
     <p style="font-size: 12px; color: #666; margin-top: 10px;">
       This hash ensures data integrity. Any modification to the snapshot will result in a different hash.
     </p>
@@ -309,13 +556,15 @@ export function generateReportHTML(report: ForensicReport): string {
 
   <div class="section">
     <h2>Chain of Custody</h2>
-    ${report.chainOfCustody.map((event, idx) => `
+    ${report.chainOfCustody.map((event, idx) => html`
       <div class="chain">
         <strong>Event #${idx + 1}: ${event.event}</strong><br>
         Actor: ${event.actor}<br>
+        ${event.artifactHash && html`<span class="hash">SHA-256: ${event.artifactHash}</span><br>`}
+        ${event.changes && event.changes.length > 0 && html`<ul>${event.changes.map(c => html`<li>${c.summary}</li>`)}</ul>`}
         <span class="timestamp">${new Date(event.at).toLocaleString()}</span>
       </div>
-    `).join('')}
+    `)}
   </div>
 
   <div class="section" style="background: #f9f9f9; border: 2px solid #667eea;">
@@ -335,5 +584,5 @@ export function generateReportHTML(report: ForensicReport): string {
   </div>
 </body>
 </html>
-  `;
-}
\ No newline at end of file
+  `.toString();
+}
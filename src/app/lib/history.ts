@@ -0,0 +1,177 @@
+// FILE: src/app/lib/history.ts
+// Profile History - Name, bio and group history from stored snapshots and Roblox (server only)
+
+import { diffSnapshots } from './drift';
+import { listProfileSnapshots, type ProfileSnapshot } from './snapshots';
+
+// 'observed' entries come from our own snapshots, 'roblox' from the upstream API
+export type HistorySource = 'observed' | 'roblox';
+
+export interface HistoryEntry {
+  kind: 'firstSeen' | 'username' | 'displayName' | 'bio' | 'banned' | 'group';
+  summary: string;
+  source: HistorySource;
+  // Snapshot in which the change was first seen; Roblox's username history is undated
+  observedAt?: string;
+  // Previous snapshot, i.e. the change happened after this
+  notBefore?: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface PastName {
+  name: string;
+  sources: HistorySource[];
+  // First snapshot that recorded the name
+  firstObservedAt?: string;
+  lastObservedAt?: string;
+}
+
+export interface ProfileHistory {
+  userId: string;
+  snapshotCount: number;
+  firstObservedAt?: string;
+  lastObservedAt?: string;
+  pastUsernames: PastName[];
+  pastDisplayNames: PastName[];
+  // Newest first; undated Roblox entries last
+  entries: HistoryEntry[];
+}
+
+// Snapshot fields that make it into the timeline. user.description is left
+// out because it duplicates profile.bio.
+const TIMELINE_FIELDS: Record<string, HistoryEntry['kind']> = {
+  'user.username': 'username',
+  'user.displayName': 'displayName',
+  'profile.bio': 'bio',
+  'user.isBanned': 'banned',
+};
+
+function timelineKind(field: string): HistoryEntry['kind'] | null {
+  if (field.startsWith('groups[')) return 'group';
+  return TIMELINE_FIELDS[field] || null;
+}
+
+/**
+ * Names a user has had other than the current one, merged from snapshots
+ * and Roblox's username history
+ */
+function collectPastNames(
+  snapshots: ProfileSnapshot[],
+  current: string,
+  pick: (s: ProfileSnapshot) => string,
+  upstream: string[] = []
+): PastName[] {
+  const names = new Map<string, PastName>();
+
+  snapshots.forEach(s => {
+    const name = pick(s);
+    if (!name || name === current) return;
+    const entry = names.get(name) || { name, sources: ['observed'], firstObservedAt: s.capturedAt };
+    entry.lastObservedAt = s.capturedAt;
+    names.set(name, entry);
+  });
+
+  upstream.forEach(name => {
+    if (!name || name === current) return;
+    const entry = names.get(name) || { name, sources: [] };
+    if (!entry.sources.includes('roblox')) entry.sources.push('roblox');
+    names.set(name, entry);
+  });
+
+  return Array.from(names.values());
+}
+
+/**
+ * Past usernames and display names for ProfileData.history, from earlier
+ * snapshots plus the names Roblox reports
+ */
+export async function getPastNames(
+  userId: string,
+  current: { username: string; displayName: string },
+  upstreamUsernames: string[]
+): Promise<{ pastUsernames: string[]; pastDisplayNames: string[] }> {
+  const snapshots = await listProfileSnapshots(userId);
+  return {
+    pastUsernames: collectPastNames(snapshots, current.username, s => s.profile.user.username, upstreamUsernames)
+      .map(n => n.name),
+    pastDisplayNames: collectPastNames(snapshots, current.displayName, s => s.profile.user.displayName)
+      .map(n => n.name),
+  };
+}
+
+/**
+ * Build a user's history timeline by diffing consecutive stored snapshots.
+ * Usernames from Roblox's username history are appended as undated entries.
+ */
+export async function getProfileHistory(userId: string): Promise<ProfileHistory> {
+  const snapshots = await listProfileSnapshots(userId);
+  const latest = snapshots[snapshots.length - 1];
+  const history: ProfileHistory = {
+    userId,
+    snapshotCount: snapshots.length,
+    firstObservedAt: snapshots[0]?.capturedAt,
+    lastObservedAt: latest?.capturedAt,
+    pastUsernames: [],
+    pastDisplayNames: [],
+    entries: [],
+  };
+  if (!latest) {
+    return history;
+  }
+
+  // Newest snapshot first, changes within a snapshot in diff order
+  const observed: HistoryEntry[] = [{
+    kind: 'firstSeen',
+    summary: `First captured as @${snapshots[0].profile.user.username} (${snapshots[0].profile.user.displayName})`,
+    source: 'observed',
+    observedAt: snapshots[0].capturedAt,
+  }];
+
+  for (let i = 1; i < snapshots.length; i++) {
+    const previous = snapshots[i - 1];
+    const current = snapshots[i];
+    if (previous.hash === current.hash) continue;
+
+    const changes: HistoryEntry[] = [];
+    diffSnapshots(
+      previous.profile as unknown as Record<string, unknown>,
+      current.profile as unknown as Record<string, unknown>
+    ).forEach(change => {
+      const kind = timelineKind(change.field);
+      if (!kind) return;
+      changes.push({
+        kind,
+        summary: change.summary,
+        source: 'observed',
+        observedAt: current.capturedAt,
+        notBefore: previous.capturedAt,
+        before: change.before,
+        after: change.after,
+      });
+    });
+    observed.unshift(...changes);
+  }
+
+  // Every username Roblox has reported across captures; it may hide older ones
+  const robloxUsernames = Array.from(new Set(snapshots.flatMap(s => s.robloxUsernames || [])));
+  history.pastUsernames = collectPastNames(
+    snapshots,
+    latest.profile.user.username,
+    s => s.profile.user.username,
+    robloxUsernames
+  );
+  history.pastDisplayNames = collectPastNames(snapshots, latest.profile.user.displayName, s => s.profile.user.displayName);
+
+  const upstream: HistoryEntry[] = history.pastUsernames
+    .filter(n => n.sources.includes('roblox'))
+    .map(n => ({
+      kind: 'username' as const,
+      summary: `Previously used username "${n.name}"`,
+      source: 'roblox' as const,
+      before: n.name,
+    }));
+
+  history.entries = [...observed, ...upstream];
+  return history;
+}
@@ -0,0 +1,53 @@
+// FILE: src/app/lib/html.ts
+// Forensic Mode - Injection-safe HTML templating
+
+/**
+ * Markup that has already been escaped or built by the `html` tag.
+ * Only values of this type are interpolated without escaping.
+ */
+export class SafeHtml {
+  constructor(private readonly value: string) {}
+
+  toString(): string {
+    return this.value;
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+  '`': '&#96;',
+};
+
+/**
+ * Escape a value for use in HTML text or a quoted attribute
+ */
+export function escapeHtml(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return String(value).replace(/[&<>"'`]/g, ch => ESCAPES[ch]);
+}
+
+function interpolate(value: unknown): string {
+  if (value instanceof SafeHtml) return value.toString();
+  if (Array.isArray(value)) return value.map(interpolate).join('');
+  if (value === false || value === undefined || value === null) return '';
+  return escapeHtml(value);
+}
+
+/**
+ * Tagged template that escapes every interpolated value unless it is SafeHtml.
+ * Arrays are joined, and false/null/undefined render as nothing, so
+ * conditionals and maps can be nested directly:
+ *
+ *   html`<ul>${items.map(i => html`<li>${i.name}</li>`)}</ul>`
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+  let out = strings[0];
+  values.forEach((value, idx) => {
+    out += interpolate(value) + strings[idx + 1];
+  });
+  return new SafeHtml(out);
+}
@@ -0,0 +1,52 @@
+// FILE: src/app/lib/identities.ts
+// Batch jobs - Group rows that resolved to the same account (shared by the server and the job views)
+
+interface ResolvedRow<U extends { id: number }> {
+  row: number;
+  input: string;
+  reference?: string;
+  user?: U;
+}
+
+export interface Identity<U extends { id: number }> {
+  user: U;
+  // Rows that resolved to this account, in input order; the first is the primary
+  rows: number[];
+  inputs: string[];
+  references: string[];
+}
+
+/**
+ * One entry per account, however each row named it (profile URL, ID,
+ * current or past username), in order of first appearance. Rows that
+ * did not resolve to an account are left out.
+ */
+export function clusterIdentities<U extends { id: number }>(results: Array<ResolvedRow<U>>): Array<Identity<U>> {
+  const byUser = new Map<number, Identity<U>>();
+  [...results]
+    .sort((a, b) => a.row - b.row)
+    .forEach(out => {
+      if (!out.user) return;
+      const identity = byUser.get(out.user.id);
+      if (!identity) {
+        byUser.set(out.user.id, {
+          user: out.user,
+          rows: [out.row],
+          inputs: [out.input],
+          references: out.reference ? [out.reference] : [],
+        });
+        return;
+      }
+      identity.rows.push(out.row);
+      if (!identity.inputs.includes(out.input)) identity.inputs.push(out.input);
+      if (out.reference && !identity.references.includes(out.reference)) identity.references.push(out.reference);
+    });
+  return [...byUser.values()];
+}
+
+/**
+ * Rows that resolved to an account an earlier row already did
+ */
+export function countDuplicates<U extends { id: number }>(identities: Array<Identity<U>>): number {
+  return identities.reduce((sum, identity) => sum + identity.rows.length - 1, 0);
+}
@@ -0,0 +1,48 @@
+// FILE: src/app/lib/input.ts
+// Input parsing - Classify typed or uploaded lookups (shared by the page and batch jobs)
+
+export type InputType = 'username' | 'displayName' | 'userId' | 'url' | 'invalid';
+
+export interface ParsedInput {
+  type: InputType;
+  value: string;
+  userId?: string;
+}
+
+export function normalizeInput(rawInput: string): ParsedInput {
+  const trimmed = rawInput.trim();
+  if (!trimmed) return { type: 'invalid', value: '' };
+
+  const urlMatch = trimmed.match(/roblox\.com\/users\/(\d+)\/profile/i);
+  if (urlMatch) return { type: 'url', value: trimmed, userId: urlMatch[1] };
+
+  if (/^\d+$/.test(trimmed)) return { type: 'userId', value: trimmed };
+
+  const usernameMatch = trimmed.match(/^@?([a-zA-Z0-9_]+)$/);
+  if (usernameMatch) return { type: 'username', value: usernameMatch[1] };
+
+  return { type: 'displayName', value: trimmed };
+}
+
+/**
+ * Whether a report query names the captured account. User ID (and profile
+ * URL) queries must; other modes can't be checked without a lookup.
+ */
+export function queryNamesUser(query: { input: string; mode: string }, userId: string): boolean {
+  if (query.mode !== 'userId') return true;
+  const parsed = normalizeInput(String(query.input ?? ''));
+  return (parsed.userId ?? parsed.value) === userId;
+}
+
+/**
+ * The details line for a verified lookup. Roblox also matches past
+ * usernames, answering with the current one, so those are called out.
+ */
+export function verifiedDetails(
+  user: { id: number; name: string; displayName: string; hasVerifiedBadge: boolean },
+  parsed: ParsedInput
+): string {
+  const renamed = parsed.type === 'username' && user.name.toLowerCase() !== parsed.value.toLowerCase();
+  return `Username: ${user.name}, Display Name: ${user.displayName}, ID: ${user.id}, Verified Badge: ${user.hasVerifiedBadge ? 'Yes' : 'No'}`
+    + (renamed ? `, Requested As: ${parsed.value} (past username)` : '');
+}
@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BulkResolution } from './bulk';
+import { createCase, setCaseStatus } from './cases';
+import {
+  controlJob,
+  createJob,
+  getJob,
+  getJobResults,
+  isFinished,
+  listJobs,
+  subscribeToJob,
+  type BatchJob,
+  type JobEvent,
+} from './jobs';
+import type { ProfileResult } from './profile';
+import { RobloxRateLimitedError } from './roblox';
+
+vi.hoisted(() => {
+  // One row at a time, so rows run in a known order
+  process.env.BATCH_JOB_CONCURRENCY = '1';
+});
+
+const roblox = vi.hoisted(() => ({
+  fetchProfile: vi.fn(),
+  searchUsers: vi.fn(),
+  // IDs Roblox throttles: bulk lookups leave them out and their search fails
+  throttled: new Set<string>(),
+  // Runs when a throttled row is searched, before it fails
+  onThrottle: null as null | (() => Promise<unknown>),
+}));
+
+// Every other ID row resolves to an account of that ID
+vi.mock('./bulk', () => ({
+  resolveBulk: async ({ userIds = [] }: { userIds?: string[] }): Promise<BulkResolution> => ({
+    usernames: [],
+    userIds: userIds.map(requested => ({
+      requested,
+      user: roblox.throttled.has(requested)
+        ? null
+        : { id: Number(requested), name: `user${requested}`, displayName: `User ${requested}`, hasVerifiedBadge: false },
+    })),
+    requests: 1,
+    cacheHits: 0,
+  }),
+}));
+vi.mock('./profile', () => ({ fetchProfile: roblox.fetchProfile }));
+vi.mock('./roblox', async importOriginal => ({
+  ...(await importOriginal<typeof import('./roblox')>()),
+  searchUsers: roblox.searchUsers,
+}));
+
+function profileOf(userId: string): ProfileResult {
+  return {
+    profile: {
+      user: { userId, username: `user${userId}`, displayName: `User ${userId}`, isBanned: false },
+      profile: { bio: '', detectedMentions: [], keywords: [] },
+      groups: [],
+    } as unknown as ProfileResult['profile'],
+    provenance: [],
+    raw: {},
+  };
+}
+
+async function settled(id: string): Promise<BatchJob> {
+  for (;;) {
+    const job = await getJob(id);
+    if (job && (isFinished(job.status) || job.status === 'paused')) return job;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+async function runningJobId(): Promise<string> {
+  return (await listJobs()).find(job => job.status === 'running')!.id;
+}
+
+function inputs(...values: string[]) {
+  return values.map(input => ({ input }));
+}
+
+beforeEach(() => {
+  roblox.fetchProfile.mockReset();
+  roblox.searchUsers.mockReset().mockImplementation(async (keyword: string) => {
+    if (roblox.throttled.has(keyword)) {
+      await roblox.onThrottle?.();
+      throw new RobloxRateLimitedError(`search ${keyword}`);
+    }
+    return { data: [] };
+  });
+  roblox.throttled.clear();
+  roblox.onThrottle = null;
+});
+
+describe('batch jobs', () => {
+  it('runs a new job to completion, streaming progress to subscribers', async () => {
+    const job = await createJob({ name: 'Subjects', createdBy: 'analyst@example.com', inputs: inputs('1', '2', '1') });
+    const events: JobEvent[] = [];
+    const unsubscribe = subscribeToJob(job.id, event => events.push(event));
+
+    expect(job).toMatchObject({ status: 'queued', total: 3, processed: 0 });
+    const finished = await settled(job.id);
+    unsubscribe();
+
+    expect(finished).toMatchObject({ status: 'completed', processed: 3, counts: { Verified: 3 }, duplicates: 1 });
+    expect((await getJobResults(job.id)).map(r => [r.row, r.user?.id])).toEqual([[0, 1], [1, 2], [2, 1]]);
+    expect(events.filter(e => e.type === 'progress').flatMap(e => e.type === 'progress' ? e.rows.map(r => r.row) : []))
+      .toEqual([0, 1, 2]);
+    expect(events[events.length - 1]).toMatchObject({ type: 'status', job: { status: 'completed' } });
+  });
+
+  it('retries rate-limited rows when a paused job is resumed', async () => {
+    roblox.throttled.add('2');
+    // Paused while row 2 is being throttled, so row 3 is never reached
+    roblox.onThrottle = async () => controlJob(await runningJobId(), 'pause');
+
+    const job = await createJob({ name: 'Subjects', createdBy: 'analyst@example.com', inputs: inputs('1', '2', '3') });
+    const paused = await settled(job.id);
+
+    expect(paused).toMatchObject({ status: 'paused', processed: 2, counts: { Verified: 1, 'Rate Limited': 1 } });
+    expect((await getJobResults(job.id)).map(r => r.status)).toEqual(['Verified', 'Rate Limited']);
+
+    roblox.throttled.clear();
+    await controlJob(job.id, 'resume');
+    const finished = await settled(job.id);
+
+    expect(finished).toMatchObject({ status: 'completed', processed: 3, counts: { Verified: 3 } });
+    expect((await getJobResults(job.id)).map(r => r.status)).toEqual(['Verified', 'Verified', 'Verified']);
+  });
+
+  it('stops a running job on cancel, keeping the rows it processed', async () => {
+    roblox.throttled.add('2');
+    roblox.onThrottle = async () => controlJob(await runningJobId(), 'cancel');
+
+    const job = await createJob({ name: 'Subjects', createdBy: 'analyst@example.com', inputs: inputs('1', '2', '3') });
+    const cancelled = await settled(job.id);
+
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.finishedAt).toBeDefined();
+    expect((await getJobResults(job.id)).map(r => r.row)).toEqual([0, 1]);
+    // Finished jobs can't be resumed
+    expect((await controlJob(job.id, 'resume'))!.status).toBe('cancelled');
+  });
+
+  it('cancels a paused job without running it', async () => {
+    roblox.throttled.add('1');
+    roblox.onThrottle = async () => controlJob(await runningJobId(), 'pause');
+    const job = await createJob({ name: 'Subjects', createdBy: 'analyst@example.com', inputs: inputs('1', '2') });
+    await settled(job.id);
+
+    const cancelled = await controlJob(job.id, 'cancel');
+
+    expect(cancelled).toMatchObject({ status: 'cancelled', processed: 1 });
+    expect(roblox.searchUsers).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('forensic batch jobs', () => {
+  it('stops capturing once the case is closed mid-job and leaves the rest unsealed', async () => {
+    const { caseId } = await createCase({ title: 'Batch', createdBy: 'analyst@example.com' });
+    // The case is closed while the first row is being captured
+    roblox.fetchProfile.mockImplementation(async (userId: string) => {
+      await setCaseStatus(caseId, 'closed', 'lead@example.com');
+      return profileOf(userId);
+    });
+
+    const job = await createJob({
+      name: 'Subjects',
+      createdBy: 'analyst@example.com',
+      inputs: inputs('1', '2', '3'),
+      caseId,
+    });
+    const finished = await settled(job.id);
+
+    expect(roblox.fetchProfile).toHaveBeenCalledTimes(1);
+    expect(finished.error).toBe(`Manifest could not be sealed: Case ${caseId} is closed`);
+    const rows = await getJobResults(job.id);
+    expect(rows.map(r => [r.status, r.reportError])).toEqual([
+      ['Verified', `Case ${caseId} is closed`],
+      ['Verified', `Case ${caseId} is closed`],
+      ['Verified', `Case ${caseId} is closed`],
+    ]);
+  });
+});
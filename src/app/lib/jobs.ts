@@ -0,0 +1,621 @@
+// FILE: src/app/lib/jobs.ts
+// Batch jobs - Server-side batch verification with progress events (server only)
+
+import { randomUUID } from 'crypto';
+import { resolveBulk } from './bulk';
+import { CaseNotOpenError, sealBatchManifest, sealRowReport, type SealedReport } from './evidence';
+import { normalizeInput, verifiedDetails, type ParsedInput } from './input';
+import { getTopSuggestions, type RankingHints } from './ranking';
+import {
+  getUser,
+  getUserGroupRoles,
+  getUsersByUsernames,
+  RobloxApiError,
+  RobloxNotFoundError,
+  RobloxRateLimitedError,
+  searchUsers,
+  type RobloxSearchResult,
+  type RobloxUserSummary,
+} from './roblox';
+import { appendLine, readJSON, readLines, withLock, writeJSON } from './storage';
+
+const JOBS_FILE = 'jobs.json';
+
+// Rows of one job looked up at once; jobs themselves run one at a time
+const CONCURRENCY = Number(process.env.BATCH_JOB_CONCURRENCY) || 4;
+// Rows resolved per bulk lookup; progress is saved after each window
+const WINDOW_SIZE = 500;
+const SUGGESTION_LIMIT = 10;
+// Top suggestions given bios and groups when a row has hints to match
+const HINTED_CANDIDATES = 5;
+
+export const MAX_JOB_ROWS = 50000;
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'cancelled' | 'completed' | 'failed';
+export type JobAction = 'pause' | 'resume' | 'cancel';
+export type RowStatus = 'Verified' | 'Suggestions' | 'Not Found' | 'Invalid' | 'Error' | 'Rate Limited';
+
+// Statuses each action can be applied to
+export const JOB_ACTIONS: Record<JobAction, JobStatus[]> = {
+  pause: ['queued', 'running'],
+  resume: ['paused'],
+  cancel: ['queued', 'running', 'paused'],
+};
+
+const FINISHED: JobStatus[] = ['cancelled', 'completed', 'failed'];
+
+export interface BatchJob {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  status: JobStatus;
+  includeBanned: boolean;
+  // Fetch created date and ban status for verified rows (one lookup each)
+  profileDetails?: boolean;
+  total: number;
+  processed: number;
+  counts: Partial<Record<RowStatus, number>>;
+  // Rows that resolved to an account another row already named
+  duplicates?: number;
+  // Forensic batches seal a report per verified row on the case, and a
+  // manifest over all of them once the job finishes
+  forensic?: {
+    caseId: string;
+    manifestReportId?: string;
+    manifestHash?: string;
+  };
+  error?: string;
+}
+
+/**
+ * One uploaded row: the identifier to look up, plus an optional external
+ * reference (ticket number, reporter) carried into the results and hints
+ * for ranking suggestions
+ */
+export interface JobInput {
+  input: string;
+  reference?: string;
+  hints?: RankingHints;
+}
+
+/**
+ * The matched account of a verified row. created and isBanned are only
+ * known when the job fetched profile details or looked the row up by ID.
+ */
+export type JobRowUser = RobloxUserSummary & { created?: string; isBanned?: boolean };
+
+export interface JobRowResult {
+  row: number;
+  input: string;
+  reference?: string;
+  status: RowStatus;
+  details?: string;
+  user?: JobRowUser;
+  suggestions?: ReturnType<typeof getTopSuggestions>;
+  avatar?: number;
+  // Forensic batches only: the row's sealed report, or why it has none
+  report?: SealedReport;
+  reportError?: string;
+}
+
+/**
+ * Pushed to subscribers as a job runs. Rows leave out suggestions to keep
+ * the stream small; the results endpoint has them.
+ */
+export type JobEvent =
+  | { type: 'progress'; job: BatchJob; rows: JobRowResult[] }
+  | { type: 'status'; job: BatchJob };
+
+type Listener = (event: JobEvent) => void;
+
+// Survives module reloads in development, like the watchlist scheduler
+const state = globalThis as typeof globalThis & {
+  __batchJobs?: {
+    activeId: string | null;
+    // The running job's progress, ahead of what jobs.json has
+    live: BatchJob | null;
+    stopRequested: Map<string, 'pause' | 'cancel'>;
+    listeners: Map<string, Set<Listener>>;
+  };
+};
+
+function runtime() {
+  if (!state.__batchJobs) {
+    state.__batchJobs = { activeId: null, live: null, stopRequested: new Map(), listeners: new Map() };
+  }
+  return state.__batchJobs;
+}
+
+function inputsFile(id: string): string {
+  return `jobs/${id}/inputs.json`;
+}
+
+function resultsFile(id: string): string {
+  return `jobs/${id}/results.ndjson`;
+}
+
+async function readInputs(id: string): Promise<JobInput[]> {
+  // Jobs created before column mapping stored bare identifiers
+  const inputs = await readJSON<Array<JobInput | string>>(inputsFile(id), []);
+  return inputs.map(item => (typeof item === 'string' ? { input: item } : item));
+}
+
+export function isFinished(status: JobStatus): boolean {
+  return FINISHED.includes(status);
+}
+
+async function loadJobs(): Promise<BatchJob[]> {
+  const jobs = await readJSON<BatchJob[]>(JOBS_FILE, []);
+  const live = runtime().live;
+  return live ? jobs.map(j => (j.id === live.id ? live : j)) : jobs;
+}
+
+async function updateJob(id: string, change: (job: BatchJob) => void): Promise<BatchJob | null> {
+  return withLock(JOBS_FILE, async () => {
+    const jobs = await readJSON<BatchJob[]>(JOBS_FILE, []);
+    const index = jobs.findIndex(j => j.id === id);
+    if (index === -1) {
+      return null;
+    }
+    const live = runtime().live;
+    const job = live?.id === id ? live : jobs[index];
+    change(job);
+    job.updatedAt = new Date().toISOString();
+    jobs[index] = job;
+    await writeJSON(JOBS_FILE, jobs);
+    return { ...job };
+  });
+}
+
+function emit(id: string, event: JobEvent): void {
+  runtime().listeners.get(id)?.forEach(listener => {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error('Batch job listener error:', err);
+    }
+  });
+}
+
+/**
+ * Receive a job's progress and status events until the returned function is called
+ */
+export function subscribeToJob(id: string, listener: Listener): () => void {
+  const listeners = runtime().listeners;
+  if (!listeners.has(id)) listeners.set(id, new Set());
+  listeners.get(id)!.add(listener);
+  return () => {
+    listeners.get(id)?.delete(listener);
+    if (listeners.get(id)?.size === 0) listeners.delete(id);
+  };
+}
+
+/**
+ * Jobs, newest first
+ */
+export async function listJobs(): Promise<BatchJob[]> {
+  return (await loadJobs()).reverse();
+}
+
+export async function getJob(id: string): Promise<BatchJob | null> {
+  const jobs = await loadJobs();
+  return jobs.find(j => j.id === id) || null;
+}
+
+/**
+ * Every row processed so far, in input order
+ */
+export async function getJobResults(id: string): Promise<JobRowResult[]> {
+  const byRow = new Map<number, JobRowResult>();
+  (await readLines<JobRowResult>(resultsFile(id))).forEach(result => byRow.set(result.row, result));
+  return [...byRow.values()].sort((a, b) => a.row - b.row);
+}
+
+/**
+ * A row as the API returns it: numbered from 1, like the exports and the
+ * forensic manifest. Jobs count rows from 0 internally.
+ */
+export function toApiRow(row: JobRowResult): JobRowResult {
+  return { ...row, row: row.row + 1 };
+}
+
+export function withoutSuggestions(row: JobRowResult): JobRowResult {
+  const rest = { ...row };
+  delete rest.suggestions;
+  return rest;
+}
+
+export async function createJob(input: {
+  name: string;
+  createdBy: string;
+  inputs: JobInput[];
+  includeBanned?: boolean;
+  profileDetails?: boolean;
+  caseId?: string;
+}): Promise<BatchJob> {
+  const now = new Date().toISOString();
+  const job: BatchJob = {
+    id: randomUUID(),
+    name: input.name,
+    createdBy: input.createdBy,
+    createdAt: now,
+    updatedAt: now,
+    status: 'queued',
+    includeBanned: input.includeBanned === true,
+    profileDetails: input.profileDetails === true,
+    total: input.inputs.length,
+    processed: 0,
+    counts: {},
+    duplicates: 0,
+    ...(input.caseId && { forensic: { caseId: input.caseId } }),
+  };
+  await writeJSON(inputsFile(job.id), input.inputs);
+  await withLock(JOBS_FILE, async () => {
+    const jobs = await readJSON<BatchJob[]>(JOBS_FILE, []);
+    await writeJSON(JOBS_FILE, [...jobs, job]);
+  });
+  void pump();
+  return job;
+}
+
+/**
+ * Pause, resume or cancel a job. Running jobs stop after their in-flight
+ * rows; rows already processed are kept either way, except rate-limited
+ * ones, which a resume retries. Actions JOB_ACTIONS does not allow for the
+ * job's status leave it unchanged.
+ */
+export async function controlJob(id: string, action: JobAction): Promise<BatchJob | null> {
+  const rt = runtime();
+  const job = await getJob(id);
+  if (!job || !JOB_ACTIONS[action].includes(job.status)) {
+    return job;
+  }
+  if (rt.activeId === id && action !== 'resume') {
+    rt.stopRequested.set(id, action);
+    return getJob(id);
+  }
+
+  const status: JobStatus = action === 'pause' ? 'paused' : action === 'resume' ? 'queued' : 'cancelled';
+  const manifest = status === 'cancelled' ? await sealManifest(job) : {};
+  const updated = await updateJob(id, job => {
+    job.status = status;
+    if (status === 'cancelled') job.finishedAt = new Date().toISOString();
+    Object.assign(job, manifest);
+  });
+  if (updated) {
+    emit(id, { type: 'status', job: updated });
+    if (action === 'resume') void pump();
+  }
+  return updated;
+}
+
+/**
+ * Requeue jobs a server restart interrupted and start the queue.
+ * Called once at startup.
+ */
+export async function resumeInterruptedJobs(): Promise<void> {
+  const jobs = await loadJobs();
+  for (const job of jobs.filter(j => j.status === 'running')) {
+    await updateJob(job.id, j => {
+      j.status = 'queued';
+    });
+  }
+  await pump();
+}
+
+/**
+ * Start the oldest queued job unless one is already running
+ */
+async function pump(): Promise<void> {
+  const rt = runtime();
+  if (rt.activeId) return;
+  const next = (await loadJobs()).find(j => j.status === 'queued');
+  if (!next || rt.activeId) return;
+
+  rt.activeId = next.id;
+  runJob(next.id)
+    .catch(err => console.error(`Batch job ${next.id} error:`, err))
+    .finally(() => {
+      rt.activeId = null;
+      rt.live = null;
+      rt.stopRequested.delete(next.id);
+      void pump();
+    });
+}
+
+/**
+ * Seal a finishing forensic job's manifest. Returns the change to make to
+ * the job: the manifest's ID and hash, or why there is none.
+ */
+async function sealManifest(job: BatchJob): Promise<Partial<BatchJob>> {
+  if (!job.forensic || job.forensic.manifestReportId) {
+    return {};
+  }
+  try {
+    const manifest = await sealBatchManifest(job, await getJobResults(job.id));
+    return {
+      forensic: { ...job.forensic, manifestReportId: manifest.reportId, manifestHash: manifest.hash },
+    };
+  } catch (err) {
+    console.error(`Batch job ${job.id} manifest could not be sealed:`, err);
+    return { error: `Manifest could not be sealed: ${err instanceof Error ? err.message : 'unknown error'}` };
+  }
+}
+
+function toRowUser(user: JobRowUser): JobRowUser {
+  const { id, name, displayName, hasVerifiedBadge, created, isBanned } = user;
+  return { id, name, displayName, hasVerifiedBadge, created, isBanned };
+}
+
+async function lookupOne(parsed: ParsedInput, includeBanned: boolean): Promise<JobRowUser | null> {
+  if (parsed.type === 'username') {
+    const { data } = await getUsersByUsernames([parsed.value], { excludeBanned: !includeBanned });
+    return data[0] || null;
+  }
+  try {
+    return (await getUser(parsed.userId || parsed.value)).data;
+  } catch (err) {
+    if (err instanceof RobloxNotFoundError) return null;
+    throw err;
+  }
+}
+
+/**
+ * Rank search results, then give the best few their bios and groups so
+ * keyword and expected-group hints can count, and rank again
+ */
+async function rankWithHints(query: string, candidates: RobloxSearchResult[], hints?: RankingHints) {
+  const ranked = getTopSuggestions(query, candidates, SUGGESTION_LIMIT);
+  const wantsBio = Boolean(hints?.keywords?.length);
+  const wantsGroups = Boolean(hints?.groupIds?.length);
+  if (!wantsBio && !wantsGroups) {
+    return ranked;
+  }
+
+  const enriched = await Promise.all(ranked.map(async ({ user }, index) => {
+    if (index >= HINTED_CANDIDATES) return user;
+    try {
+      const userId = String(user.id);
+      const [profile, groups] = await Promise.all([
+        wantsBio ? getUser(userId).then(r => r.data) : null,
+        wantsGroups ? getUserGroupRoles(userId).then(r => r.data) : null,
+      ]);
+      return {
+        ...user,
+        ...(profile && { description: profile.description, created: profile.created }),
+        ...(groups && { groups: groups.map(g => ({ id: g.group.id, name: g.group.name })) }),
+      };
+    } catch (err) {
+      // A candidate that can't be enriched is still ranked on its name
+      console.error(`Batch job could not enrich candidate ${user.id}:`, err);
+      return user;
+    }
+  }));
+  return getTopSuggestions(query, enriched, SUGGESTION_LIMIT, hints);
+}
+
+/**
+ * A forensic run's sealing, shared by its workers. Once the case turns out
+ * to be closed, the remaining rows are left unsealed with the reason
+ * rather than each capturing live evidence only to fail.
+ */
+interface RowSealing {
+  job: { id: string; createdBy: string; caseId: string };
+  stopped?: string;
+}
+
+/**
+ * Look one row up the way a single search on the page does: exact
+ * username or ID first, falling back to ranked suggestions. `resolved`
+ * holds the bulk lookup's answer for the row, if it got one.
+ */
+async function processRow(
+  row: number,
+  item: JobInput,
+  resolved: Map<number, RobloxUserSummary | null>,
+  options: {
+    includeBanned: boolean;
+    profileDetails: boolean;
+    forensic?: RowSealing;
+  }
+): Promise<JobRowResult> {
+  const base = { row, input: item.input, ...(item.reference && { reference: item.reference }) };
+  const parsed = normalizeInput(item.input);
+  if (parsed.type === 'invalid') {
+    return { ...base, status: 'Invalid', details: 'Invalid input' };
+  }
+
+  try {
+    if (parsed.type !== 'displayName') {
+      let user: JobRowUser | null = resolved.has(row) ? resolved.get(row)! : await lookupOne(parsed, options.includeBanned);
+      if (user) {
+        if (options.profileDetails && user.created === undefined) {
+          try {
+            user = (await getUser(String(user.id))).data;
+          } catch (err) {
+            // The match stands; the export just lacks created and banned
+            console.error(`Batch job could not fetch details for ${user.id}:`, err);
+          }
+        }
+        const verified: JobRowResult = {
+          ...base,
+          status: 'Verified',
+          details: verifiedDetails(user, parsed),
+          user: toRowUser(user),
+          avatar: user.id,
+        };
+        const sealing = options.forensic;
+        if (sealing?.stopped) {
+          verified.reportError = sealing.stopped;
+        } else if (sealing) {
+          const query = { input: parsed.value, mode: parsed.type === 'username' ? 'username' : 'userId' } as const;
+          try {
+            verified.report = await sealRowReport(sealing.job, row, query, user.id);
+          } catch (err) {
+            // The row is still verified; the manifest lists it as unsealed
+            verified.reportError = err instanceof Error ? err.message : 'Report could not be sealed';
+            if (err instanceof CaseNotOpenError) {
+              sealing.stopped = err.message;
+            } else {
+              console.error(`Batch job could not seal a report for row ${row}:`, err);
+            }
+          }
+        }
+        return verified;
+      }
+    }
+
+    let candidates: RobloxSearchResult[] = [];
+    try {
+      candidates = (await searchUsers(parsed.value, SUGGESTION_LIMIT)).data;
+    } catch (err) {
+      // Roblox answers 400 for keywords it considers invalid or filtered
+      if (!(err instanceof RobloxApiError && err.status === 400)) throw err;
+    }
+    const suggestions = await rankWithHints(parsed.value, candidates, item.hints);
+    if (suggestions.length === 0) {
+      return { ...base, status: 'Not Found', details: 'No matches' };
+    }
+    const top = suggestions[0];
+    return {
+      ...base,
+      status: 'Suggestions',
+      details: `Found ${suggestions.length} suggestions, top: @${top.user.name} (${top.confidence}%)`,
+      suggestions,
+    };
+  } catch (err) {
+    return {
+      ...base,
+      status: err instanceof RobloxRateLimitedError ? 'Rate Limited' : 'Error',
+      details: err instanceof Error ? err.message : 'Lookup failed',
+    };
+  }
+}
+
+/**
+ * Bulk-resolve the username and ID rows of a window, keyed by row. On
+ * failure the rows are looked up one by one instead.
+ */
+async function resolveWindow(
+  window: Array<{ row: number; item: JobInput }>,
+  includeBanned: boolean
+): Promise<Map<number, RobloxUserSummary | null>> {
+  const usernameRows: number[] = [];
+  const idRows: number[] = [];
+  const usernames: string[] = [];
+  const userIds: string[] = [];
+  window.forEach(({ row, item }) => {
+    const parsed = normalizeInput(item.input);
+    if (parsed.type === 'username') {
+      usernameRows.push(row);
+      usernames.push(parsed.value);
+    } else if (parsed.type === 'userId' || parsed.type === 'url') {
+      idRows.push(row);
+      userIds.push(parsed.userId || parsed.value);
+    }
+  });
+
+  const resolved = new Map<number, RobloxUserSummary | null>();
+  try {
+    const bulk = await resolveBulk({ usernames, userIds }, { includeBanned });
+    bulk.usernames.forEach((match, i) => resolved.set(usernameRows[i], match.user));
+    bulk.userIds.forEach((match, i) => resolved.set(idRows[i], match.user));
+  } catch (err) {
+    console.error('Batch job bulk lookup failed, falling back to per-row lookups:', err);
+  }
+  return resolved;
+}
+
+async function runJob(id: string): Promise<void> {
+  const rt = runtime();
+  const inputs = await readInputs(id);
+  // Rate-limited rows never got an answer, so a resumed run looks them up
+  // again; the new result replaces the old line
+  const existing = (await getJobResults(id)).filter(r => r.status !== 'Rate Limited');
+  const done = new Set(existing.map(r => r.row));
+  const counts: BatchJob['counts'] = {};
+  existing.forEach(r => {
+    counts[r.status] = (counts[r.status] || 0) + 1;
+  });
+  // The same account often arrives as a URL, an ID and a username
+  const seenUsers = new Set<number>();
+  let duplicates = 0;
+  existing.forEach(r => {
+    if (!r.user) return;
+    if (seenUsers.has(r.user.id)) duplicates++;
+    seenUsers.add(r.user.id);
+  });
+
+  const started = await updateJob(id, job => {
+    job.status = 'running';
+    job.startedAt = job.startedAt || new Date().toISOString();
+    job.processed = done.size;
+    job.counts = counts;
+    job.duplicates = duplicates;
+    delete job.error;
+  });
+  if (!started) return;
+  rt.live = started;
+  emit(id, { type: 'status', job: { ...started } });
+
+  const live = started;
+  const sealing: RowSealing | undefined = live.forensic && {
+    job: { id, createdBy: live.createdBy, caseId: live.forensic.caseId },
+  };
+  const pending = inputs.map((item, row) => ({ row, item })).filter(({ row }) => !done.has(row));
+  try {
+    for (let start = 0; start < pending.length && !rt.stopRequested.has(id); start += WINDOW_SIZE) {
+      const window = pending.slice(start, start + WINDOW_SIZE);
+      const resolved = await resolveWindow(window, live.includeBanned);
+
+      let next = 0;
+      const worker = async () => {
+        while (next < window.length && !rt.stopRequested.has(id)) {
+          const { row, item } = window[next++];
+          const result = await processRow(row, item, resolved, {
+            includeBanned: live.includeBanned,
+            profileDetails: live.profileDetails === true,
+            forensic: sealing,
+          });
+          await appendLine(resultsFile(id), result);
+          live.processed++;
+          live.counts[result.status] = (live.counts[result.status] || 0) + 1;
+          if (result.user) {
+            if (seenUsers.has(result.user.id)) live.duplicates = (live.duplicates || 0) + 1;
+            seenUsers.add(result.user.id);
+          }
+          emit(id, { type: 'progress', job: { ...live }, rows: [withoutSuggestions(result)] });
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(CONCURRENCY, window.length) }, worker));
+      await updateJob(id, () => undefined);
+    }
+  } catch (err) {
+    console.error(`Batch job ${id} failed:`, err);
+    // Failed jobs cannot be resumed, so their sealed rows get a manifest now
+    const manifest = await sealManifest({ ...live });
+    const failed = await updateJob(id, job => {
+      Object.assign(job, manifest);
+      job.status = 'failed';
+      job.error = err instanceof Error ? err.message : 'Batch job failed';
+      job.finishedAt = new Date().toISOString();
+    });
+    if (failed) emit(id, { type: 'status', job: failed });
+    return;
+  }
+
+  const stop = rt.stopRequested.get(id);
+  // Sealed while the job still counts as running, so the manifest is on
+  // the finished job that subscribers see last
+  const manifest = stop === 'pause' ? {} : await sealManifest({ ...live });
+  const finished = await updateJob(id, job => {
+    job.status = stop === 'pause' ? 'paused' : stop === 'cancel' ? 'cancelled' : 'completed';
+    if (job.status !== 'paused') job.finishedAt = new Date().toISOString();
+    Object.assign(job, manifest);
+  });
+  if (finished) emit(id, { type: 'status', job: finished });
+}
@@ -0,0 +1,288 @@
+// FILE: src/app/lib/pdf.ts
+// Forensic Mode - Server-side PDF rendering for forensic reports
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+import type { ForensicReport } from './forensic';
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const FOOTER_HEIGHT = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const COLORS = {
+  heading: rgb(0.4, 0.49, 0.92),
+  label: rgb(0.33, 0.33, 0.33),
+  text: rgb(0.2, 0.2, 0.2),
+  muted: rgb(0.53, 0.53, 0.53),
+  danger: rgb(0.8, 0, 0),
+};
+
+/**
+ * Standard PDF fonts only cover WinAnsi; replace anything else (emoji, CJK)
+ */
+function toWinAnsi(text: string): string {
+  return Array.from(text)
+    .map(ch => {
+      const code = ch.codePointAt(0) || 0;
+      if (ch === '\t') return ' ';
+      return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) ? ch : '?';
+    })
+    .join('');
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+
+  toWinAnsi(text.replace(/\r/g, '')).split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+
+      // Break words (hashes, URLs) that are wider than a full line
+      line = '';
+      for (const ch of word) {
+        if (font.widthOfTextAtSize(line + ch, size) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += ch;
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+}
+
+function str(value: unknown, fallback: string = 'N/A'): string {
+  return value === undefined || value === null || value === '' ? fallback : String(value);
+}
+
+/**
+ * Render a forensic report as a PDF. Every page footer carries the report ID,
+ * snapshot hash and page number so detached pages can be traced back.
+ */
+export async function renderReportPDF(report: ForensicReport): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const mono = await doc.embedFont(StandardFonts.Courier);
+
+  // Fixed metadata keeps the output byte-for-byte reproducible for a given report
+  const createdAt = new Date(report.meta.createdAt);
+  doc.setTitle(`Forensic Report ${report.meta.reportId}`);
+  doc.setSubject(`${report.hash.algo} ${report.hash.value}`);
+  doc.setCreator(`Roblox Verifier Tool v${report.meta.appVersion}`);
+  doc.setProducer('Roblox Verifier Tool');
+  doc.setCreationDate(createdAt);
+  doc.setModificationDate(createdAt);
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN + FOOTER_HEIGHT) {
+      page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const write = (
+    text: string,
+    options: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb>; indent?: number } = {}
+  ) => {
+    const font = options.font || regular;
+    const size = options.size || 10;
+    const indent = options.indent || 0;
+    const lineHeight = size * 1.4;
+
+    wrapText(text, font, size, CONTENT_WIDTH - indent).forEach(line => {
+      ensureSpace(lineHeight);
+      y -= lineHeight;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color: options.color || COLORS.text });
+    });
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y -= 14;
+    write(text, { font: bold, size: 14, color: COLORS.heading });
+    y -= 4;
+  };
+
+  const field = (label: string, value: string, font: PDFFont = regular) => {
+    write(label, { font: bold, size: 9, color: COLORS.label });
+    write(value, { font, indent: 12 });
+  };
+
+  // Title
+  write('Forensic Evidence Report', { font: bold, size: 20, color: COLORS.heading });
+  write(`Report ID: ${report.meta.reportId}`, { color: COLORS.muted });
+  write(`Generated (UTC): ${report.meta.createdAt}`, { color: COLORS.muted });
+
+  heading('Report Metadata');
+  field('Created By', report.meta.createdBy);
+  field('App Version', report.meta.appVersion);
+  if (report.meta.capture === 'server') {
+    field('Snapshot Capture', 'Fetched server-side from Roblox');
+  } else if (report.meta.capture) {
+    write('Snapshot Capture', { font: bold, size: 9, color: COLORS.label });
+    write('UNVERIFIED - submitted by client', { font: bold, color: COLORS.danger, indent: 12 });
+  }
+  if (report.meta.caseId) {
+    field('Case ID', report.meta.caseId);
+  }
+  if (report.meta.redaction) {
+    write('Redaction Profile', { font: bold, size: 9, color: COLORS.label });
+    write(`REDACTED COPY - ${report.meta.redaction.profile}`, { font: bold, color: COLORS.danger, indent: 12 });
+    field('Masked Fields', report.meta.redaction.maskedFields.join(', '));
+    field('Original Snapshot Hash', report.meta.redaction.originalHash, mono);
+  }
+
+  heading('Query Information');
+  field('Search Input', report.query.input);
+  field('Search Mode', report.query.mode);
+
+  if (report.drift) {
+    heading('Changes Since Base Report');
+    field('Base Report', `${report.drift.baseReportId} (${report.drift.baseCreatedAt})`);
+    field('Base Snapshot Hash', report.drift.baseHash, mono);
+    if (report.drift.changes.length === 0) {
+      write('No changes detected: the live profile matches the base report.', { indent: 12 });
+    }
+    report.drift.changes.forEach(c => write(`- ${c.summary}`, { indent: 12 }));
+  }
+
+  heading('User Profile Snapshot');
+  const snapshotUser = report.snapshot.user as Record<string, unknown> | undefined;
+  if (snapshotUser && typeof snapshotUser === 'object') {
+    field('Username', `@${str(snapshotUser.username)}`);
+    field('Display Name', str(snapshotUser.displayName));
+    field('User ID', str(snapshotUser.userId));
+    field('Account Created', str(snapshotUser.createdAt));
+    field('Description', str(snapshotUser.description, 'None'));
+    if (snapshotUser.isBanned) {
+      write('ACCOUNT BANNED', { font: bold, color: COLORS.danger, indent: 12 });
+    }
+  } else {
+    write('User data not available', { color: COLORS.muted });
+  }
+
+  const counts = report.snapshot.counts as Record<string, unknown> | undefined;
+  if (counts && typeof counts === 'object') {
+    heading('Social Metrics');
+    field('Friends', str(counts.friends));
+    field('Followers', str(counts.followers));
+    field('Following', str(counts.following));
+  }
+
+  const groups = report.snapshot.groups;
+  if (Array.isArray(groups) && groups.length > 0) {
+    heading('Group Memberships');
+    (groups as Array<Record<string, unknown>>).forEach(g => {
+      write(
+        `${str(g.name)} - ${str(g.role)}${g.isOwner ? ' (Owner)' : ''} - risk: ${str(g.riskTag).toUpperCase()}`,
+        { indent: 12 }
+      );
+    });
+  }
+
+  const profile = report.snapshot.profile as Record<string, unknown> | undefined;
+  const keywords = Array.isArray(profile?.keywords) ? (profile.keywords as string[]) : [];
+  const mentions = Array.isArray(profile?.detectedMentions) ? (profile.detectedMentions as string[]) : [];
+  if (keywords.length > 0 || mentions.length > 0) {
+    heading('Detected Flags & Mentions');
+    if (keywords.length > 0) {
+      field('Keyword Flags', keywords.map(kw => kw.replace('flag:', '')).join(', '));
+    }
+    if (mentions.length > 0) {
+      field('External Mentions', mentions.join(', '));
+    }
+  }
+
+  heading('Data Sources');
+  if (report.sources.length === 0) {
+    write('No fetch provenance was recorded for this snapshot.', { color: COLORS.muted });
+  }
+  report.sources.forEach(s => {
+    write(s.failed ? `${s.name} (FAILED${s.error ? `: ${s.error}` : ''})` : s.name, {
+      font: bold,
+      color: s.failed ? COLORS.danger : COLORS.text,
+      indent: 12,
+    });
+    if (s.url) {
+      write(s.url, { size: 9, color: COLORS.muted, indent: 12 });
+    }
+    write(
+      `Fetched: ${s.fetchedAt}${s.httpStatus !== undefined ? ` - HTTP ${s.httpStatus}` : ''}`,
+      { size: 9, color: COLORS.muted, indent: 12 }
+    );
+    if (s.responseHash) {
+      write(`Response SHA-256: ${s.responseHash}`, { font: mono, size: 8, color: COLORS.muted, indent: 12 });
+    }
+  });
+
+  heading('Cryptographic Hash');
+  field('Algorithm', report.hash.algo);
+  if (report.hash.canonicalization) {
+    field('Canonicalization', report.hash.canonicalization);
+  }
+  field('Hash Value', report.hash.value, mono);
+  if (report.signature) {
+    field('Signature', `${report.signature.algo}, key ${report.signature.keyId}, signed ${report.signature.signedAt}`);
+    field('Signature Value', report.signature.value, mono);
+  }
+  if (report.timestamp) {
+    field('RFC 3161 Timestamp', `${report.timestamp.genTime} from ${report.timestamp.tsa}`);
+    field('Timestamp Serial', report.timestamp.serialNumber, mono);
+  }
+  write('Any modification to the snapshot will result in a different hash.', {
+    size: 9,
+    color: COLORS.muted,
+  });
+
+  heading('Chain of Custody');
+  report.chainOfCustody.forEach((event, idx) => {
+    write(`Event #${idx + 1}: ${event.event}`, { font: bold, indent: 12 });
+    write(`Actor: ${event.actor} - ${event.at}`, { size: 9, color: COLORS.muted, indent: 12 });
+    event.changes?.forEach(c => write(`- ${c.summary}`, { size: 9, indent: 24 }));
+  });
+
+  heading('Legal Notice');
+  write(
+    `This forensic report was generated by Roblox Verifier Tool v${report.meta.appVersion}. ` +
+      'The data contained herein represents a timestamped snapshot of publicly available information ' +
+      'from Roblox APIs at the time of generation. This report should be treated as evidence and ' +
+      "stored in accordance with your organization's data retention policies.",
+    { size: 9, color: COLORS.label }
+  );
+
+  // Footers are drawn last, once the total page count is known
+  const pages = doc.getPages();
+  pages.forEach((p, idx) => {
+    const pageLabel = `Page ${idx + 1} of ${pages.length}`;
+    p.drawLine({
+      start: { x: MARGIN, y: MARGIN + 22 },
+      end: { x: PAGE_WIDTH - MARGIN, y: MARGIN + 22 },
+      thickness: 0.5,
+      color: COLORS.muted,
+    });
+    p.drawText(`Report ${report.meta.reportId}`, { x: MARGIN, y: MARGIN + 10, size: 8, font: regular, color: COLORS.muted });
+    p.drawText(pageLabel, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(pageLabel, 8),
+      y: MARGIN + 10,
+      size: 8,
+      font: regular,
+      color: COLORS.muted,
+    });
+    p.drawText(`${report.hash.algo} ${report.hash.value}`, { x: MARGIN, y: MARGIN, size: 7, font: mono, color: COLORS.muted });
+  });
+
+  return doc.save();
+}
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { fetchProfile } from './profile';
+import { listProfileSnapshots } from './snapshots';
+
+// Replays responses recorded from scripts/mock-roblox.mjs. To re-record, run
+// the mock and: ROBLOX_FIXTURE_MODE=record
+// ROBLOX_API_BASE_URL='http://localhost:4010/{service}' npm test -- profile bulk ranking forensic/report
+vi.hoisted(() => {
+  process.env.ROBLOX_FIXTURE_MODE ||= 'replay';
+  process.env.ROBLOX_FIXTURE_DIR = 'src/test/fixtures/roblox';
+});
+
+describe('fetchProfile (recorded fixtures)', () => {
+  it('aggregates the user, groups, friends and username history', async () => {
+    const result = await fetchProfile('100001', 'lookup', { bypassCache: true });
+
+    expect(result!.profile.user).toMatchObject({ userId: '100001', username: 'BuilderBen', displayName: 'Ben', isBanned: false });
+    expect(result!.profile.counts.friends).toBe(187);
+    expect(result!.profile.groups.map(g => [g.name, g.isOwner])).toEqual([
+      ['Builders Guild', true],
+      ['Trade Hub Official', false],
+    ]);
+    expect(result!.profile.history.pastUsernames).toEqual(['BenTheBuilder', 'bbuilds2016']);
+  });
+
+  it('records provenance whose hashes match the raw responses', async () => {
+    const result = await fetchProfile('100001', 'lookup', { bypassCache: true });
+
+    expect(result!.provenance.map(p => p.name)).toEqual([
+      'roblox.users',
+      'roblox.groups',
+      'roblox.friends',
+      'roblox.usernameHistory',
+    ]);
+    result!.provenance.forEach(p => {
+      expect(p.failed).toBeFalsy();
+      expect(p.responseHash).toBe(createHash('sha256').update(result!.raw[p.name]).digest('hex'));
+    });
+  });
+
+  it('stores one snapshot for repeated fetches of an unchanged profile', async () => {
+    await fetchProfile('100002', 'lookup', { bypassCache: true });
+    await fetchProfile('100002', 'lookup', { bypassCache: true });
+
+    expect(await listProfileSnapshots('100002')).toHaveLength(1);
+  });
+
+  it('reports banned accounts', async () => {
+    const result = await fetchProfile('100006', 'lookup', { bypassCache: true });
+
+    expect(result!.profile.user.isBanned).toBe(true);
+  });
+
+  it('returns null for a user that does not exist', async () => {
+    expect(await fetchProfile('999999', 'lookup', { bypassCache: true })).toBeNull();
+  });
+});
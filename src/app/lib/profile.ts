@@ -0,0 +1,293 @@
+// FILE: src/app/lib/profile.ts
+// Deep Context Lookup - Profile aggregation with per-source provenance (server only)
+
+import { createHash } from 'crypto';
+import { getPastNames } from './history';
+import {
+  CACHE_TTL_SECONDS,
+  RobloxApiError,
+  RobloxNotFoundError,
+  robloxRequest,
+  robloxUrl,
+  type LookupOptions,
+  type RobloxGroupRole,
+  type RobloxPage,
+  type RobloxService,
+  type RobloxUser,
+} from './roblox';
+import { saveProfileSnapshot } from './snapshots';
+
+export interface ProfileData {
+  user: {
+    userId: string;
+    username: string;
+    displayName: string;
+    avatarUrl: string;
+    createdAt: string;
+    description: string;
+    isBanned: boolean;
+  };
+  counts: {
+    friends: number;
+    followers: number;
+    following: number;
+  };
+  profile: {
+    bio: string;
+    detectedMentions: string[];
+    keywords: string[];
+  };
+  groups: Array<{
+    name: string;
+    role: string;
+    id: string;
+    joinedAt: string;
+    isOwner: boolean;
+    riskTag: 'low' | 'med' | 'high';
+  }>;
+  history: {
+    pastDisplayNames: string[];
+    pastUsernames: string[];
+  };
+}
+
+/**
+ * What was retrieved from where and when, for one upstream call
+ */
+export interface SourceProvenance {
+  name: string;
+  url: string;
+  fetchedAt: string;
+  httpStatus?: number;
+  responseHash?: string; // SHA-256 of the raw response body
+  failed: boolean;
+  error?: string;
+  // Served from the response cache; fetchedAt is when Roblox answered
+  cached?: boolean;
+}
+
+export interface ProfileResult {
+  profile: ProfileData;
+  provenance: SourceProvenance[];
+  // Raw upstream response bodies keyed by source name (hashes match provenance)
+  raw: Record<string, string>;
+}
+
+// Risk tags for groups (configurable)
+const GROUP_RISK_TAGS: Record<string, 'low' | 'med' | 'high'> = {
+  // Add known risky group IDs here
+  // '12345': 'high',
+  // '67890': 'med',
+};
+
+// Keyword flags (configurable)
+const KEYWORD_FLAGS = [
+  'discord', 'discord.gg', '@', '#',
+  'school', 'age', 'years old', 'yo',
+  'instagram', 'twitter', 'youtube',
+  'snap', 'tiktok', 'venmo', 'cashapp'
+];
+
+export function parseBioForMentions(bio: string): string[] {
+  const mentions: string[] = [];
+
+  // Discord patterns
+  if (bio.match(/discord\.gg\/[\w-]+/i)) {
+    mentions.push('discord:invite_link');
+  }
+  if (bio.match(/discord[:\s]+[\w#]+\d{4}/i)) {
+    mentions.push('discord:username');
+  }
+
+  // Twitter/X
+  const twitterMatch = bio.match(/@[\w]+\s*(?:twitter|x\.com)/i);
+  if (twitterMatch) {
+    mentions.push(`x:${twitterMatch[0]}`);
+  }
+
+  // YouTube
+  const youtubeMatch = bio.match(/youtube\.com\/(c\/|@)?[\w-]+/i);
+  if (youtubeMatch) {
+    mentions.push(`youtube:${youtubeMatch[0]}`);
+  }
+
+  return mentions;
+}
+
+export function detectKeywords(bio: string): string[] {
+  const detected: string[] = [];
+  const lowerBio = bio.toLowerCase();
+
+  KEYWORD_FLAGS.forEach(keyword => {
+    if (lowerBio.includes(keyword.toLowerCase())) {
+      detected.push(`flag:${keyword}`);
+    }
+  });
+
+  return detected;
+}
+
+function hashBody(body: string): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+/**
+ * Fetch one upstream JSON endpoint, recording its provenance. Failures are
+ * returned rather than thrown so optional sources can be skipped.
+ */
+async function fetchWithProvenance<T>(
+  name: string,
+  service: RobloxService,
+  path: string,
+  cacheTtlSeconds: number,
+  options: LookupOptions
+): Promise<{ data: T | null; body?: string; error?: unknown; provenance: SourceProvenance }> {
+  const fetchedAt = new Date().toISOString();
+  try {
+    const response = await robloxRequest<T>(service, path, { ...options, cacheTtlSeconds });
+    return {
+      data: response.data,
+      body: response.body,
+      provenance: {
+        name,
+        url: response.url,
+        fetchedAt: response.fetchedAt,
+        httpStatus: response.status,
+        responseHash: hashBody(response.body),
+        failed: false,
+        ...(response.cache?.hit ? { cached: true } : {}),
+      },
+    };
+  } catch (err) {
+    const apiError = err instanceof RobloxApiError ? err : null;
+    return {
+      data: null,
+      body: apiError?.body,
+      error: err,
+      provenance: {
+        name,
+        url: apiError?.url || robloxUrl(service, path),
+        fetchedAt,
+        httpStatus: apiError?.status,
+        responseHash: apiError?.body !== undefined ? hashBody(apiError.body) : undefined,
+        failed: true,
+        error: err instanceof Error ? err.message : 'Request failed',
+      },
+    };
+  }
+}
+
+/**
+ * Aggregate a user's profile from the Roblox APIs and store a dated snapshot
+ * of it, tagged with what triggered the fetch. Cached responses are used
+ * unless bypassCache is set, and a profile served from the cache is not
+ * stored again; neither is one fetched with recordSnapshot set to false.
+ * Returns null when the user does not exist and throws the Roblox client
+ * error when it could not be fetched; group, friend and username history
+ * failures are tolerated and show up as failed provenance entries.
+ */
+export async function fetchProfile(
+  userId: string,
+  source: string = 'lookup',
+  { recordSnapshot = true, ...options }: LookupOptions & { recordSnapshot?: boolean } = {}
+): Promise<ProfileResult | null> {
+  const id = encodeURIComponent(userId);
+
+  // Parallel API calls for performance
+  const [userResult, groupsResult, friendsResult, usernameHistoryResult] = await Promise.all([
+    fetchWithProvenance<RobloxUser>('roblox.users', 'users', `/v1/users/${id}`, CACHE_TTL_SECONDS.user, options),
+    fetchWithProvenance<RobloxPage<RobloxGroupRole>>(
+      'roblox.groups',
+      'groups',
+      `/v2/users/${id}/groups/roles`,
+      CACHE_TTL_SECONDS.groups,
+      options
+    ),
+    fetchWithProvenance<{ count?: number }>(
+      'roblox.friends',
+      'friends',
+      `/v1/users/${id}/friends/count`,
+      CACHE_TTL_SECONDS.friends,
+      options
+    ),
+    fetchWithProvenance<RobloxPage<{ name: string }>>(
+      'roblox.usernameHistory',
+      'users',
+      `/v1/users/${id}/username-history?limit=100&sortOrder=Desc`,
+      CACHE_TTL_SECONDS.usernameHistory,
+      options
+    ),
+  ]);
+
+  const userData = userResult.data;
+  if (!userData) {
+    // A missing user is an answer; a throttled or unreachable Roblox is not
+    if (userResult.error instanceof RobloxNotFoundError) {
+      return null;
+    }
+    throw userResult.error;
+  }
+
+  const groupsData = groupsResult.data?.data || [];
+  const friendsCount = friendsResult.data?.count || 0;
+  const robloxUsernames = (usernameHistoryResult.data?.data || []).map(entry => entry.name);
+
+  // Build profile data
+  const bio = userData.description || '';
+  const detectedMentions = parseBioForMentions(bio);
+  const keywords = detectKeywords(bio);
+
+  const profile: ProfileData = {
+    user: {
+      userId: userData.id.toString(),
+      username: userData.name,
+      displayName: userData.displayName,
+      avatarUrl: `/api/thumbnail?userId=${userData.id}`,
+      createdAt: userData.created,
+      description: bio,
+      isBanned: userData.isBanned || false,
+    },
+    counts: {
+      friends: friendsCount,
+      followers: 0, // Not available via API
+      following: 0, // Not available via API
+    },
+    profile: {
+      bio,
+      detectedMentions,
+      keywords,
+    },
+    groups: groupsData.slice(0, 10).map((g) => ({
+      name: g.group.name,
+      role: g.role.name,
+      id: g.group.id.toString(),
+      joinedAt: '', // Not available via API; a fetch time here would change every snapshot's hash
+      isOwner: g.role.rank === 255,
+      riskTag: GROUP_RISK_TAGS[g.group.id.toString()] || 'low',
+    })),
+    // Display names only come from our own snapshots; usernames also from Roblox
+    history: await getPastNames(
+      userData.id.toString(),
+      { username: userData.name, displayName: userData.displayName },
+      robloxUsernames
+    ),
+  };
+
+  if (recordSnapshot && !userResult.provenance.cached) {
+    await saveProfileSnapshot(profile, source, usernameHistoryResult.provenance.failed ? undefined : robloxUsernames);
+  }
+
+  const results = [userResult, groupsResult, friendsResult, usernameHistoryResult];
+  const raw: Record<string, string> = {};
+  results.forEach(r => {
+    if (r.body !== undefined) {
+      raw[r.provenance.name] = r.body;
+    }
+  });
+
+  return {
+    profile,
+    provenance: results.map(r => r.provenance),
+    raw,
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { rankCandidates } from './ranking';
+import { getUser, searchUsers } from './roblox';
+
+// Replays responses recorded from scripts/mock-roblox.mjs; see profile.test.ts
+vi.hoisted(() => {
+  process.env.ROBLOX_FIXTURE_MODE ||= 'replay';
+  process.env.ROBLOX_FIXTURE_DIR = 'src/test/fixtures/roblox';
+});
+
+describe('rankCandidates (recorded fixtures)', () => {
+  it('ranks an exact username match first', async () => {
+    const { data } = await searchUsers('speedy', 10);
+    const ranked = rankCandidates('SamSpeedy', data);
+
+    expect(ranked.map(c => c.user.name)).toEqual(['SamSpeedy', 'SpeedySam']);
+    expect(ranked[0].breakdown).toContain('Exact name match');
+  });
+
+  it('lets bio keywords decide between similar names', async () => {
+    const { data } = await searchUsers('rose', 10);
+    const withBios = await Promise.all(data.map(async user => ({
+      ...user,
+      description: (await getUser(String(user.id))).data.description,
+    })));
+
+    expect(rankCandidates('rose', withBios, { keywords: ['roleplay'] }).map(c => c.user.name))
+      .toEqual(['QuietRose', 'rose_quiet']);
+    expect(rankCandidates('rose', withBios, { keywords: ['instagram'] }).map(c => c.user.name))
+      .toEqual(['rose_quiet', 'QuietRose']);
+  });
+});
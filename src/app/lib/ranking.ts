@@ -26,10 +26,13 @@ interface UserCandidate {
   hasVerifiedBadge: boolean;
   created?: string;
   description?: string;
+  // Only known when the caller fetched them; group overlap is neutral otherwise
+  groups?: Array<{ id: number; name: string }>;
 }
 
-interface RankingHints {
+export interface RankingHints {
   keywords?: string[];
+  // Groups the account is expected to be in, by ID or name
   groupIds?: string[];
 }
 
@@ -182,12 +185,14 @@ function calculateKeywordHits(candidate: UserCandidate, hints?: RankingHints): n
   return Math.min(hits / hints.keywords.length, 1.0);
 }
 
-function calculateGroupOverlap(hints?: RankingHints): number {
-  // This would require fetching groups per candidate - expensive
-  // For now, return neutral score
-  // In production, could be implemented with cached group data
-  if (!hints?.groupIds || hints.groupIds.length === 0) return 0.5;
-  return 0.5; // Neutral - implement if group data available
+function calculateGroupOverlap(candidate: UserCandidate, hints?: RankingHints): number {
+  if (!hints?.groupIds || hints.groupIds.length === 0) return 0.5; // Neutral
+  // Group data is fetched per candidate, so callers only add it for a few
+  if (!candidate.groups) return 0.5;
+
+  const memberOf = new Set(candidate.groups.flatMap(g => [String(g.id), normalizeString(g.name)]));
+  const hits = hints.groupIds.filter(group => memberOf.has(normalizeString(group))).length;
+  return hits / hints.groupIds.length;
 }
 
 function calculateProfileCompleteness(candidate: UserCandidate): number {
@@ -224,7 +229,7 @@ export function rankCandidates(
       nameSimilarity: calculateNameSimilarity(query, candidate),
       accountSignals: calculateAccountSignals(candidate),
       keywordHits: calculateKeywordHits(candidate, hints),
-      groupOverlap: calculateGroupOverlap(hints),
+      groupOverlap: calculateGroupOverlap(candidate, hints),
       profileCompleteness: calculateProfileCompleteness(candidate),
     };
     
@@ -247,6 +252,7 @@ export function rankCandidates(
     if (signals.accountSignals >= 0.7) breakdown.push('Established account');
     if (signals.profileCompleteness >= 0.7) breakdown.push('Complete profile');
     if (signals.keywordHits >= 0.5 && hints?.keywords) breakdown.push('Keyword matches');
+    if (signals.groupOverlap >= 0.5 && hints?.groupIds && candidate.groups) breakdown.push('In expected group');
     
     return {
       user: candidate,
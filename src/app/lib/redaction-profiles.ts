@@ -0,0 +1,43 @@
+// FILE: src/app/lib/redaction-profiles.ts
+// Forensic Mode - Redaction profile definitions, shared with the client
+
+export type RedactionProfileId = 'internal' | 'law-enforcement' | 'external-share';
+
+export interface RedactionProfile {
+  id: RedactionProfileId;
+  label: string;
+  description: string;
+  mask: {
+    bio: boolean;
+    mentions: boolean;
+    groupNames: boolean;
+    avatar: boolean;
+  };
+}
+
+export const REDACTION_PROFILES: Record<RedactionProfileId, RedactionProfile> = {
+  internal: {
+    id: 'internal',
+    label: 'Internal',
+    description: 'Full snapshot, nothing masked',
+    mask: { bio: false, mentions: false, groupNames: false, avatar: false },
+  },
+  'law-enforcement': {
+    id: 'law-enforcement',
+    label: 'Law Enforcement',
+    description: 'Full text content; avatar image withheld',
+    mask: { bio: false, mentions: false, groupNames: false, avatar: true },
+  },
+  'external-share': {
+    id: 'external-share',
+    label: 'External Share',
+    description: 'Bio text and keywords, external mentions, group names and avatar masked',
+    mask: { bio: true, mentions: true, groupNames: true, avatar: true },
+  },
+};
+
+export const DEFAULT_REDACTION_PROFILE: RedactionProfileId = 'internal';
+
+export function isRedactionProfileId(value: unknown): value is RedactionProfileId {
+  return typeof value === 'string' && value in REDACTION_PROFILES;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { maskedFields, REDACTION_PROFILES, redactSnapshot } from './redaction';
+
+const snapshot = {
+  user: { userId: '1', username: 'subject', description: 'Roleplay fan, add me on insta', avatarUrl: 'https://example.com/a.png' },
+  profile: {
+    bio: 'Roleplay fan, add me on insta',
+    keywords: ['roleplay', 'insta'],
+    detectedMentions: ['instagram:subject'],
+  },
+  groups: [{ id: 7, name: 'Roleplayers' }],
+};
+
+describe('redactSnapshot', () => {
+  it('masks the keywords derived from the bio along with the bio itself', () => {
+    const redacted = redactSnapshot(snapshot, REDACTION_PROFILES['external-share']);
+
+    expect(redacted.profile).toEqual({
+      bio: '[REDACTED]',
+      keywords: ['[REDACTED]', '[REDACTED]'],
+      detectedMentions: ['instagram:*******'],
+    });
+    expect(JSON.stringify(redacted)).not.toMatch(/roleplay|insta(?!gram:)/i);
+    expect(maskedFields(REDACTION_PROFILES['external-share'])).toContain('profile.keywords');
+  });
+
+  it('leaves the bio and keywords alone when the profile keeps text content', () => {
+    const redacted = redactSnapshot(snapshot, REDACTION_PROFILES['law-enforcement']);
+
+    expect(redacted.profile).toEqual(snapshot.profile);
+    expect(redacted.user).toMatchObject({ description: snapshot.user.description, avatarUrl: '[REDACTED]' });
+  });
+});
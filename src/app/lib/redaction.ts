@@ -0,0 +1,140 @@
+// FILE: src/app/lib/redaction.ts
+// Forensic Mode - Named redaction profiles for exported reports
+
+import { generateHash, getReportCanonicalization, isRecord, type ForensicReport } from './forensic';
+import {
+  REDACTION_PROFILES,
+  isRedactionProfileId,
+  type RedactionProfile,
+} from './redaction-profiles';
+
+export * from './redaction-profiles';
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Whether a profile removes anything; raw upstream responses can only be
+ * shipped alongside an unmasked snapshot
+ */
+export function isMasking(profile: RedactionProfile): boolean {
+  return Object.values(profile.mask).some(Boolean);
+}
+
+/**
+ * Snapshot paths a profile masks, for display in the report
+ */
+export function maskedFields(profile: RedactionProfile): string[] {
+  const fields: string[] = [];
+  if (profile.mask.bio) fields.push('user.description', 'profile.bio', 'profile.keywords');
+  if (profile.mask.mentions) fields.push('profile.detectedMentions');
+  if (profile.mask.groupNames) fields.push('groups[].name', 'groups[].id');
+  if (profile.mask.avatar) fields.push('user.avatarUrl');
+  return fields;
+}
+
+// Keep the platform prefix of a mention ("discord:") like DeepContext does
+function maskMention(mention: string): string {
+  const separator = mention.indexOf(':');
+  const prefix = separator >= 0 ? mention.substring(0, separator + 1) : '';
+  return prefix + mention.substring(prefix.length).replace(/[a-z0-9]/gi, '*');
+}
+
+/**
+ * Apply a redaction profile to a snapshot. Deterministic, so anyone holding
+ * the sealed original can reproduce the redacted snapshot and its hash.
+ */
+export function redactSnapshot(
+  snapshot: Record<string, unknown>,
+  profile: RedactionProfile
+): Record<string, unknown> {
+  const { mask } = profile;
+  const redacted: Record<string, unknown> = { ...snapshot };
+
+  if (isRecord(snapshot.user)) {
+    const user = { ...snapshot.user };
+    if (mask.bio && 'description' in user) user.description = REDACTED;
+    if (mask.avatar && 'avatarUrl' in user) user.avatarUrl = REDACTED;
+    redacted.user = user;
+  }
+
+  if (isRecord(snapshot.profile)) {
+    const profileSection = { ...snapshot.profile };
+    if (mask.bio && 'bio' in profileSection) profileSection.bio = REDACTED;
+    // Keywords are extracted from the bio, so they fall under the same mask
+    if (mask.bio && Array.isArray(profileSection.keywords)) {
+      profileSection.keywords = profileSection.keywords.map(() => REDACTED);
+    }
+    if (mask.mentions && Array.isArray(profileSection.detectedMentions)) {
+      profileSection.detectedMentions = profileSection.detectedMentions.map(m => maskMention(String(m)));
+    }
+    redacted.profile = profileSection;
+  }
+
+  if (mask.groupNames && Array.isArray(snapshot.groups)) {
+    redacted.groups = snapshot.groups.map(g =>
+      isRecord(g) ? { ...g, name: REDACTED, id: REDACTED } : g
+    );
+  }
+
+  return redacted;
+}
+
+/**
+ * Derive the redacted copy of a sealed report. The copy carries its own hash
+ * over the redacted snapshot and records the original snapshot hash.
+ * Signing and timestamping the copy is left to the caller.
+ */
+export async function redactReport(
+  report: ForensicReport,
+  profile: RedactionProfile
+): Promise<ForensicReport> {
+  const snapshot = redactSnapshot(report.snapshot, profile);
+
+  return {
+    ...report,
+    meta: {
+      ...report.meta,
+      redaction: {
+        profile: profile.id,
+        originalHash: report.hash.value,
+        maskedFields: maskedFields(profile),
+      },
+    },
+    snapshot,
+    hash: {
+      ...report.hash,
+      value: await generateHash(snapshot, getReportCanonicalization(report)),
+      timestamped: undefined,
+    },
+    signature: undefined,
+    timestamp: undefined,
+  };
+}
+
+/**
+ * Prove a redacted copy is consistent with its sealed original: same report,
+ * and re-applying the recorded profile to the original yields the same hash
+ */
+export async function verifyRedaction(
+  redacted: ForensicReport,
+  original: ForensicReport
+): Promise<{ consistent: boolean; reason?: string }> {
+  const redaction = redacted.meta.redaction;
+  if (!redaction) {
+    return { consistent: false, reason: 'Report is not a redacted copy' };
+  }
+  if (!isRedactionProfileId(redaction.profile)) {
+    return { consistent: false, reason: `Unknown redaction profile: ${redaction.profile}` };
+  }
+  if (redacted.meta.reportId !== original.meta.reportId || redaction.originalHash !== original.hash.value) {
+    return { consistent: false, reason: 'Original snapshot hash does not match the sealed report' };
+  }
+
+  const expected = await generateHash(
+    redactSnapshot(original.snapshot, REDACTION_PROFILES[redaction.profile]),
+    getReportCanonicalization(original)
+  );
+  return expected === redacted.hash.value
+    ? { consistent: true }
+    : { consistent: false, reason: 'Redacted snapshot differs from the redacted original' };
+}
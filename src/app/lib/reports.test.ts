@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { addCustodyEvent, createForensicReport } from './forensic';
+import { getReport, saveReport, updateReport } from './reports';
+
+describe('updateReport', () => {
+  it('keeps every custody event from concurrent updates', async () => {
+    const report = await createForensicReport(
+      { user: { userId: '1', username: 'subject' } },
+      { input: 'subject', mode: 'username' },
+      { email: 'analyst@example.com' }
+    );
+    await saveReport(report);
+
+    await Promise.all(['first', 'second', 'third'].map(actor =>
+      updateReport(report.meta.reportId, stored => addCustodyEvent(stored, 'reverified:no-drift', actor))
+    ));
+
+    const stored = await getReport(report.meta.reportId);
+    expect(stored!.chainOfCustody.map(entry => entry.actor)).toEqual(
+      expect.arrayContaining(['first', 'second', 'third'])
+    );
+    expect(stored!.chainOfCustody).toHaveLength(report.chainOfCustody.length + 3);
+  });
+
+  it('returns null for an unknown report', async () => {
+    expect(await updateReport('missing', stored => stored)).toBeNull();
+  });
+});
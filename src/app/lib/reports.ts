@@ -0,0 +1,55 @@
+// FILE: src/app/lib/reports.ts
+// Forensic Mode - Generated report store (server only)
+
+import { readJSON, withLock, writeJSON } from './storage';
+import type { ForensicReport } from './forensic';
+
+/**
+ * Report IDs are UUIDs; anything else could escape the reports directory
+ */
+export function isValidReportId(reportId: unknown): reportId is string {
+  return typeof reportId === 'string' && /^[\w-]+$/.test(reportId);
+}
+
+function reportFile(reportId: string): string {
+  if (!isValidReportId(reportId)) {
+    throw new Error(`Invalid report ID: ${reportId}`);
+  }
+  return `reports/${reportId}.json`;
+}
+
+/**
+ * Persist a report (overwrites the previous version with the same ID)
+ */
+export async function saveReport(report: ForensicReport): Promise<void> {
+  const file = reportFile(report.meta.reportId);
+  await withLock(file, () => writeJSON(file, report));
+}
+
+/**
+ * Read-modify-write a stored report under its file lock, so concurrent
+ * updates (e.g. custody events from two re-verifications) are not lost.
+ * Returns the updated report, or null if it does not exist.
+ */
+export async function updateReport(
+  reportId: string,
+  change: (report: ForensicReport) => ForensicReport
+): Promise<ForensicReport | null> {
+  const file = reportFile(reportId);
+  return withLock(file, async () => {
+    const report = await readJSON<ForensicReport | null>(file, null);
+    if (!report) {
+      return null;
+    }
+    const updated = change(report);
+    await writeJSON(file, updated);
+    return updated;
+  });
+}
+
+/**
+ * Load a stored report, or null if it does not exist
+ */
+export async function getReport(reportId: string): Promise<ForensicReport | null> {
+  return readJSON<ForensicReport | null>(reportFile(reportId), null);
+}
@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { robloxRequest, RobloxUpstreamError } from './roblox';
+
+vi.hoisted(() => {
+  process.env.ROBLOX_API_MAX_RETRIES = 'lots';
+});
+
+describe('robloxRequest retries', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('falls back to 3 retries when ROBLOX_API_MAX_RETRIES is not a number', async () => {
+    const fetch = vi.fn(async () => new Response('{}', { status: 503 }));
+    vi.stubGlobal('fetch', fetch);
+    // No backoff wait
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+
+    await expect(robloxRequest('users', '/v1/users/1')).rejects.toBeInstanceOf(RobloxUpstreamError);
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+});
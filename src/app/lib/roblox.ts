@@ -0,0 +1,545 @@
+// FILE: src/app/lib/roblox.ts
+// Roblox API - Typed client for the public Roblox web APIs (server only)
+
+import { cacheGet, cacheSet, describeCacheEntry, type CacheInfo } from './cache';
+import { FIXTURE_MODE, recordFixture, replayFixture } from './fixtures';
+
+// `{service}` is replaced with the API subdomain, e.g. https://users.roblox.com
+const BASE_URL = process.env.ROBLOX_API_BASE_URL || 'https://{service}.roblox.com';
+const TIMEOUT_MS = Number(process.env.ROBLOX_API_TIMEOUT_MS) || 10000;
+
+// Requests per second allowed to each upstream host (also the burst size)
+const RATE_LIMIT_PER_SECOND = Number(process.env.ROBLOX_API_RATE_LIMIT) || 10;
+// 0 disables retries; anything but a non-negative integer falls back to 3
+const MAX_RETRIES = parseMaxRetries(process.env.ROBLOX_API_MAX_RETRIES, 3);
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+// Longer Retry-After values are handed back to the caller instead of waited out
+const MAX_RETRY_AFTER_SECONDS = 10;
+
+export type RobloxService = 'users' | 'groups' | 'friends' | 'thumbnails';
+
+export interface RobloxUser {
+  id: number;
+  name: string;
+  displayName: string;
+  description: string;
+  created: string;
+  isBanned: boolean;
+  hasVerifiedBadge: boolean;
+  externalAppDisplayName?: string | null;
+}
+
+/**
+ * The short user shape returned by the multi-user endpoints
+ */
+export interface RobloxUserSummary {
+  id: number;
+  name: string;
+  displayName: string;
+  hasVerifiedBadge: boolean;
+}
+
+export interface RobloxUsernameMatch extends RobloxUserSummary {
+  requestedUsername: string;
+}
+
+export interface RobloxSearchResult {
+  id: number;
+  name: string;
+  displayName: string;
+  hasVerifiedBadge: boolean;
+  previousUsernames?: string[];
+}
+
+export interface RobloxGroupRole {
+  group: {
+    id: number;
+    name: string;
+    memberCount: number;
+  };
+  role: {
+    id: number;
+    name: string;
+    rank: number;
+  };
+}
+
+export interface RobloxThumbnail {
+  targetId: number;
+  state: string;
+  imageUrl: string | null;
+}
+
+export interface RobloxPage<T> {
+  data: T[];
+  previousPageCursor?: string | null;
+  nextPageCursor?: string | null;
+}
+
+/**
+ * A parsed upstream response plus what provenance records need
+ */
+export interface RobloxResponse<T> {
+  data: T;
+  body: string;
+  url: string;
+  status: number;
+  // When Roblox actually answered, which predates now for cache hits
+  fetchedAt: string;
+  cache?: CacheInfo;
+}
+
+// How long each endpoint's successful responses are served from the cache
+export const CACHE_TTL_SECONDS = {
+  user: 600,
+  usernames: 600,
+  users: 600,
+  search: 300,
+  groups: 900,
+  friends: 900,
+  usernameHistory: 3600,
+  thumbnails: 3600,
+  // Headshot image bytes; CDN URLs change whenever the image does
+  images: 86400,
+};
+
+/**
+ * Per-call options. bypassCache always goes to Roblox (the fresh response
+ * still refreshes the cache); forensic capture uses it so evidence is live.
+ */
+export interface LookupOptions {
+  bypassCache?: boolean;
+}
+
+/**
+ * A typed lookup result with how the cache served it
+ */
+export interface Lookup<T> {
+  data: T;
+  cache?: CacheInfo;
+}
+
+// Most usernames or user IDs the multi-user endpoints accept per call
+export const MAX_USERS_PER_REQUEST = 100;
+
+// The search endpoint only accepts these page sizes
+const SEARCH_LIMITS = [10, 25, 50, 100];
+
+export class RobloxApiError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+    readonly status?: number,
+    readonly body?: string
+  ) {
+    super(message);
+    this.name = 'RobloxApiError';
+  }
+}
+
+export class RobloxNotFoundError extends RobloxApiError {
+  constructor(url: string, body?: string) {
+    super('Not found on Roblox', url, 404, body);
+    this.name = 'RobloxNotFoundError';
+  }
+}
+
+export class RobloxRateLimitedError extends RobloxApiError {
+  constructor(url: string, readonly retryAfterSeconds?: number, body?: string) {
+    super('Roblox rate limit reached', url, 429, body);
+    this.name = 'RobloxRateLimitedError';
+  }
+}
+
+// 5xx responses, timeouts, network failures and unparseable bodies
+export class RobloxUpstreamError extends RobloxApiError {
+  constructor(message: string, url: string, status?: number, body?: string) {
+    super(message, url, status, body);
+    this.name = 'RobloxUpstreamError';
+  }
+}
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+  // Set from a 429's Retry-After; nobody calls the host before then
+  blockedUntil: number;
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+function parseMaxRetries(value: string | undefined, fallback: number): number {
+  const retries = Number(value);
+  return value?.trim() && Number.isInteger(retries) && retries >= 0 ? retries : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function bucketFor(host: string): TokenBucket {
+  let bucket = buckets.get(host);
+  if (!bucket) {
+    bucket = { tokens: RATE_LIMIT_PER_SECOND, updatedAt: Date.now(), blockedUntil: 0 };
+    buckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Wait for a request slot on a url's host. One bucket per host is shared by
+ * every route in the process. While the host is blocked for longer than we
+ * are willing to wait, fail fast as rate limited.
+ */
+async function takeToken(url: string): Promise<void> {
+  const bucket = bucketFor(new URL(url).host);
+  for (;;) {
+    const now = Date.now();
+    if (bucket.blockedUntil > now) {
+      const remaining = bucket.blockedUntil - now;
+      if (remaining > MAX_RETRY_AFTER_SECONDS * 1000) {
+        throw new RobloxRateLimitedError(url, Math.ceil(remaining / 1000));
+      }
+      await sleep(remaining);
+      continue;
+    }
+    bucket.tokens = Math.min(
+      RATE_LIMIT_PER_SECOND,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * RATE_LIMIT_PER_SECOND
+    );
+    bucket.updatedAt = now;
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    await sleep(((1 - bucket.tokens) / RATE_LIMIT_PER_SECOND) * 1000);
+  }
+}
+
+function blockHost(host: string, seconds: number): void {
+  const bucket = bucketFor(host);
+  bucket.blockedUntil = Math.max(bucket.blockedUntil, Date.now() + seconds * 1000);
+}
+
+export function robloxUrl(service: RobloxService, path: string): string {
+  return BASE_URL.replace('{service}', service).replace(/\/$/, '') + path;
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Fetch a URL with the client timeout once a rate-limit slot is free,
+ * turning failures into RobloxApiErrors. In fixture replay mode the recorded
+ * response for fixtureKey is returned instead; in record mode it is saved.
+ * API call keys name the Roblox service rather than the host, so fixtures
+ * recorded against the mock server replay under any base URL.
+ */
+async function send(url: string, init: RequestInit = {}, fixtureKey: string = `GET ${url}`): Promise<Response> {
+  if (FIXTURE_MODE === 'replay') {
+    const replayed = await replayFixture(fixtureKey);
+    if (!replayed) {
+      // Not a RobloxUpstreamError: retrying cannot make a fixture appear
+      throw new RobloxApiError(`No recorded fixture for ${fixtureKey}`, url);
+    }
+    return replayed;
+  }
+
+  await takeToken(url);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: AbortSignal.timeout(TIMEOUT_MS) });
+  } catch (err) {
+    if (err instanceof Error && err.name === 'TimeoutError') {
+      throw new RobloxUpstreamError(`Roblox did not respond within ${TIMEOUT_MS}ms`, url);
+    }
+    throw new RobloxUpstreamError(err instanceof Error ? err.message : 'Request failed', url);
+  }
+
+  if (response.status === 429) {
+    blockHost(new URL(url).host, parseRetryAfter(response.headers.get('Retry-After')) ?? 1);
+  }
+  if (FIXTURE_MODE === 'record') {
+    const body = typeof init.body === 'string' ? init.body : undefined;
+    return recordFixture(fixtureKey, { method: init.method || 'GET', url, body }, response);
+  }
+  return response;
+}
+
+function checkStatus(response: Response, url: string, body?: string): void {
+  if (response.ok) return;
+  if (response.status === 404) {
+    throw new RobloxNotFoundError(url, body);
+  }
+  if (response.status === 429) {
+    throw new RobloxRateLimitedError(url, parseRetryAfter(response.headers.get('Retry-After')), body);
+  }
+  if (response.status >= 500) {
+    throw new RobloxUpstreamError(`Roblox responded with HTTP ${response.status}`, url, response.status, body);
+  }
+  throw new RobloxApiError(`Roblox rejected the request (HTTP ${response.status})`, url, response.status, body);
+}
+
+function isTransient(err: unknown): boolean {
+  if (err instanceof RobloxRateLimitedError) return true;
+  return err instanceof RobloxUpstreamError && (err.status === undefined || err.status >= 500);
+}
+
+/**
+ * Run an idempotent call, retrying rate limits, 5xx responses, timeouts and
+ * network failures. Waits out Retry-After when Roblox sends one, otherwise
+ * backs off exponentially with full jitter.
+ */
+async function withRetries<T>(call: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      if (attempt >= MAX_RETRIES || !isTransient(err)) throw err;
+
+      const retryAfter = err instanceof RobloxRateLimitedError ? err.retryAfterSeconds : undefined;
+      if (retryAfter !== undefined && retryAfter > MAX_RETRY_AFTER_SECONDS) throw err;
+      const delay = retryAfter !== undefined
+        ? retryAfter * 1000
+        : Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Call a Roblox JSON endpoint. Throws RobloxNotFoundError,
+ * RobloxRateLimitedError, RobloxUpstreamError or RobloxApiError.
+ * GETs are retried; other methods only when marked idempotent. Successful
+ * responses are cached when a TTL is given.
+ */
+export async function robloxRequest<T>(
+  service: RobloxService,
+  path: string,
+  options: LookupOptions & {
+    method?: 'GET' | 'POST';
+    json?: unknown;
+    idempotent?: boolean;
+    cacheTtlSeconds?: number;
+  } = {}
+): Promise<RobloxResponse<T>> {
+  const method = options.method || 'GET';
+  const url = robloxUrl(service, path);
+  const jsonBody = options.json === undefined ? '' : JSON.stringify(options.json);
+  const cacheKey = `roblox ${method} ${url} ${jsonBody}`;
+
+  if (options.cacheTtlSeconds && !options.bypassCache) {
+    const cached = await cacheGet<RobloxResponse<T>>(cacheKey);
+    if (cached) {
+      return { ...cached.value, cache: describeCacheEntry(cached, true) };
+    }
+  }
+
+  const fixtureKey = `${method} ${service}:${path} ${jsonBody}`;
+  const call = () => requestOnce<T>(url, method, options.json, fixtureKey);
+  const response = await ((options.idempotent ?? method === 'GET') ? withRetries(call) : call());
+  if (!options.cacheTtlSeconds) {
+    return response;
+  }
+  const stored = await cacheSet(cacheKey, response, options.cacheTtlSeconds);
+  return { ...response, cache: describeCacheEntry(stored, false) };
+}
+
+async function requestOnce<T>(
+  url: string,
+  method: 'GET' | 'POST',
+  json: unknown,
+  fixtureKey: string
+): Promise<RobloxResponse<T>> {
+  const fetchedAt = new Date().toISOString();
+  const response = await send(url, {
+    method,
+    headers: json !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: json !== undefined ? JSON.stringify(json) : undefined,
+  }, fixtureKey);
+
+  let body: string;
+  try {
+    body = await response.text();
+  } catch (err) {
+    throw new RobloxUpstreamError(err instanceof Error ? err.message : 'Failed to read response', url, response.status);
+  }
+  checkStatus(response, url, body);
+
+  try {
+    return { data: JSON.parse(body) as T, body, url, status: response.status, fetchedAt };
+  } catch {
+    throw new RobloxUpstreamError('Roblox returned invalid JSON', url, response.status, body);
+  }
+}
+
+function lookup<T, R>(response: RobloxResponse<T>, pick: (data: T) => R): Lookup<R> {
+  return { data: pick(response.data), cache: response.cache };
+}
+
+export async function getUser(userId: string, options: LookupOptions = {}): Promise<Lookup<RobloxUser>> {
+  const response = await robloxRequest<RobloxUser>('users', `/v1/users/${encodeURIComponent(userId)}`, {
+    ...options,
+    cacheTtlSeconds: CACHE_TTL_SECONDS.user,
+  });
+  return lookup(response, data => data);
+}
+
+/**
+ * Exact username lookup. Usernames with no match are simply absent.
+ */
+export async function getUsersByUsernames(
+  usernames: string[],
+  options: LookupOptions & { excludeBanned?: boolean } = {}
+): Promise<Lookup<RobloxUsernameMatch[]>> {
+  const response = await robloxRequest<RobloxPage<RobloxUsernameMatch>>('users', '/v1/usernames/users', {
+    method: 'POST',
+    json: { usernames, excludeBannedUsers: options.excludeBanned ?? true },
+    // A lookup, so safe to repeat
+    idempotent: true,
+    bypassCache: options.bypassCache,
+    cacheTtlSeconds: CACHE_TTL_SECONDS.usernames,
+  });
+  return lookup(response, data => data.data || []);
+}
+
+/**
+ * Multi-ID lookup. IDs with no account are simply absent.
+ */
+export async function getUsersByIds(
+  userIds: string[],
+  options: LookupOptions & { excludeBanned?: boolean } = {}
+): Promise<Lookup<RobloxUserSummary[]>> {
+  const response = await robloxRequest<RobloxPage<RobloxUserSummary>>('users', '/v1/users', {
+    method: 'POST',
+    json: { userIds: userIds.map(Number), excludeBannedUsers: options.excludeBanned ?? false },
+    idempotent: true,
+    bypassCache: options.bypassCache,
+    cacheTtlSeconds: CACHE_TTL_SECONDS.users,
+  });
+  return lookup(response, data => data.data || []);
+}
+
+export async function searchUsers(
+  keyword: string,
+  limit: number = 10,
+  options: LookupOptions = {}
+): Promise<Lookup<RobloxSearchResult[]>> {
+  const pageSize = SEARCH_LIMITS.find(l => l >= limit) || SEARCH_LIMITS[SEARCH_LIMITS.length - 1];
+  const response = await robloxRequest<RobloxPage<RobloxSearchResult>>(
+    'users',
+    `/v1/users/search?keyword=${encodeURIComponent(keyword)}&limit=${pageSize}`,
+    { ...options, cacheTtlSeconds: CACHE_TTL_SECONDS.search }
+  );
+  return lookup(response, data => (data.data || []).slice(0, limit));
+}
+
+export async function getUserGroupRoles(userId: string, options: LookupOptions = {}): Promise<Lookup<RobloxGroupRole[]>> {
+  const response = await robloxRequest<RobloxPage<RobloxGroupRole>>(
+    'groups',
+    `/v2/users/${encodeURIComponent(userId)}/groups/roles`,
+    { ...options, cacheTtlSeconds: CACHE_TTL_SECONDS.groups }
+  );
+  return lookup(response, data => data.data || []);
+}
+
+export async function getFriendCount(userId: string, options: LookupOptions = {}): Promise<Lookup<number>> {
+  const response = await robloxRequest<{ count?: number }>(
+    'friends',
+    `/v1/users/${encodeURIComponent(userId)}/friends/count`,
+    { ...options, cacheTtlSeconds: CACHE_TTL_SECONDS.friends }
+  );
+  return lookup(response, data => data.count || 0);
+}
+
+/**
+ * Past usernames, newest first. Roblox omits some older names.
+ */
+export async function getUsernameHistory(userId: string, options: LookupOptions = {}): Promise<Lookup<string[]>> {
+  const response = await robloxRequest<RobloxPage<{ name: string }>>(
+    'users',
+    `/v1/users/${encodeURIComponent(userId)}/username-history?limit=100&sortOrder=Desc`,
+    { ...options, cacheTtlSeconds: CACHE_TTL_SECONDS.usernameHistory }
+  );
+  return lookup(response, data => (data.data || []).map(entry => entry.name));
+}
+
+export async function getAvatarHeadshots(
+  userIds: string[],
+  size: string = '48x48',
+  options: LookupOptions = {}
+): Promise<Lookup<RobloxThumbnail[]>> {
+  const response = await robloxRequest<RobloxPage<RobloxThumbnail>>(
+    'thumbnails',
+    `/v1/users/avatar-headshot?userIds=${userIds.map(encodeURIComponent).join(',')}&size=${size}&format=Png`,
+    { ...options, cacheTtlSeconds: CACHE_TTL_SECONDS.thumbnails }
+  );
+  return lookup(response, data => data.data || []);
+}
+
+/**
+ * Download an image from a URL returned by the thumbnails API (Roblox's CDN).
+ * The bytes are cached base64-encoded so they survive the disk tier.
+ */
+export async function downloadImage(url: string, options: LookupOptions = {}): Promise<Lookup<ArrayBuffer>> {
+  const cacheKey = `image GET ${url}`;
+  if (!options.bypassCache) {
+    const cached = await cacheGet<string>(cacheKey);
+    if (cached) {
+      return { data: Uint8Array.from(Buffer.from(cached.value, 'base64')).buffer, cache: describeCacheEntry(cached, true) };
+    }
+  }
+
+  const image = await withRetries(async () => {
+    const response = await send(url);
+    checkStatus(response, url);
+    return response.arrayBuffer();
+  });
+  const stored = await cacheSet(cacheKey, Buffer.from(image).toString('base64'), CACHE_TTL_SECONDS.images);
+  return { data: image, cache: describeCacheEntry(stored, false) };
+}
+
+/**
+ * Response headers describing how the cache served a lookup
+ */
+export function cacheHeaders(cache: CacheInfo | undefined, bypassed: boolean = false): Record<string, string> {
+  if (!cache) return {};
+  return {
+    'X-Cache': bypassed ? 'BYPASS' : cache.hit ? 'HIT' : 'MISS',
+    Age: String(cache.ageSeconds),
+  };
+}
+
+/**
+ * HTTP status, message and headers for a route to return when a Roblox call
+ * failed. Rate limits keep their Retry-After so clients can wait it out.
+ */
+export function describeRobloxError(err: unknown): {
+  status: number;
+  error: string;
+  headers: Record<string, string>;
+} {
+  if (err instanceof RobloxNotFoundError) {
+    return { status: 404, error: err.message, headers: {} };
+  }
+  if (err instanceof RobloxRateLimitedError) {
+    return {
+      status: 429,
+      error: err.message,
+      headers: { 'Retry-After': String(Math.ceil(err.retryAfterSeconds ?? 1)) },
+    };
+  }
+  if (err instanceof RobloxUpstreamError) {
+    return { status: 502, error: `Roblox is unavailable: ${err.message}`, headers: {} };
+  }
+  if (err instanceof RobloxApiError) {
+    return { status: 502, error: err.message, headers: {} };
+  }
+  return { status: 500, error: 'Failed to fetch from Roblox', headers: {} };
+}
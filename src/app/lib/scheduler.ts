@@ -0,0 +1,41 @@
+// FILE: src/app/lib/scheduler.ts
+// Watchlists - In-process scheduler for watchlist re-checks (server only)
+
+import { runDueWatchlists } from './watchlists';
+
+// How often due watchlists are looked for; each list has its own interval
+const TICK_MS = 60 * 1000;
+
+// Survives module reloads in development so only one timer ever runs
+const state = globalThis as typeof globalThis & {
+  __watchScheduler?: { timer: NodeJS.Timeout; running: boolean };
+};
+
+/**
+ * Start the watchlist scheduler once per server process.
+ * Set WATCHLIST_SCHEDULER=off to disable it (e.g. on extra replicas).
+ */
+export function startWatchScheduler(): void {
+  if (state.__watchScheduler || process.env.WATCHLIST_SCHEDULER === 'off') {
+    return;
+  }
+
+  const scheduler = {
+    running: false,
+    timer: setInterval(async () => {
+      // Skip a tick rather than overlap a slow run
+      if (scheduler.running) return;
+      scheduler.running = true;
+      try {
+        // Alerts are stored and pushed, failed checks logged, by the run itself
+        await runDueWatchlists();
+      } catch (err) {
+        console.error('Watchlist scheduler error:', err);
+      }
+      scheduler.running = false;
+    }, TICK_MS),
+  };
+  // Don't keep the process alive just for the scheduler
+  scheduler.timer.unref();
+  state.__watchScheduler = scheduler;
+}
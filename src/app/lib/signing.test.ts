@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { createForensicReport, hashDrift, verifyReportIntegrity, type ForensicReport } from './forensic';
+import { signReport, verifyReportSignature } from './signing';
+
+async function signedReport(): Promise<ForensicReport> {
+  return signReport(await createForensicReport(
+    { user: { userId: '1', username: 'subject' } },
+    { input: 'subject', mode: 'username' },
+    { email: 'analyst@example.com' },
+    undefined,
+    [{ name: 'roblox.users', fetchedAt: '2026-01-01T00:00:00.000Z', httpStatus: 200, responseHash: 'a'.repeat(64) }],
+    'server'
+  ));
+}
+
+async function signedFollowUp(): Promise<ForensicReport> {
+  const report = await createForensicReport(
+    { user: { userId: '1', username: 'subject', displayName: 'After' } },
+    { input: 'subject', mode: 'username' },
+    { email: 'analyst@example.com' }
+  );
+  const drift = {
+    baseReportId: 'base-report',
+    baseHash: 'b'.repeat(64),
+    baseCreatedAt: '2026-01-01T00:00:00.000Z',
+    changes: [{ field: 'user.displayName', kind: 'changed' as const, before: 'Before', after: 'After', summary: 'Display name changed' }],
+  };
+  return signReport({ ...report, hash: { ...report.hash, driftHash: await hashDrift(drift) }, drift });
+}
+
+describe('report signatures', () => {
+  it('verifies an untouched report', async () => {
+    const report = await signedReport();
+
+    expect((await verifyReportSignature(report)).valid).toBe(true);
+    expect(await verifyReportIntegrity(report)).toBe(true);
+  });
+
+  it('rejects provenance edited after sealing', async () => {
+    const report = await signedReport();
+    const edited = { ...report, sources: [{ ...report.sources[0], fetchedAt: '2026-06-01T00:00:00.000Z' }] };
+
+    expect((await verifyReportSignature(edited)).valid).toBe(false);
+    expect(await verifyReportIntegrity(edited)).toBe(false);
+  });
+
+  it('rejects a report whose provenance digest was stripped', async () => {
+    const report = await signedReport();
+    const stripped = { ...report, hash: { ...report.hash, sourcesHash: undefined }, sources: [] };
+
+    expect((await verifyReportSignature(stripped)).valid).toBe(false);
+  });
+
+  it('rejects a follow-up whose reported changes were emptied', async () => {
+    const report = await signedFollowUp();
+    const emptied = { ...report, drift: { ...report.drift!, changes: [] } };
+
+    expect((await verifyReportSignature(report)).valid).toBe(true);
+    expect(await verifyReportIntegrity(report)).toBe(true);
+    expect((await verifyReportSignature(emptied)).valid).toBe(false);
+    expect(await verifyReportIntegrity(emptied)).toBe(false);
+  });
+
+  it('rejects a follow-up whose drift digest was stripped', async () => {
+    const report = await signedFollowUp();
+    const stripped = { ...report, hash: { ...report.hash, driftHash: undefined }, drift: { ...report.drift!, changes: [] } };
+
+    expect((await verifyReportSignature(stripped)).valid).toBe(false);
+  });
+});
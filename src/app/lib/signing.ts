@@ -0,0 +1,235 @@
+// FILE: src/app/lib/signing.ts
+// Forensic Mode - Ed25519 report signing and key rotation (server only)
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  verify,
+} from 'crypto';
+import { readJSON, withLock, writeJSON } from './storage';
+import { canonicalize, type ForensicReport } from './forensic';
+
+const KEYRING_FILE = 'signing-keys.json';
+
+export interface SigningKey {
+  keyId: string;
+  algorithm: 'Ed25519';
+  publicKey: string; // SPKI PEM
+  privateKey?: string; // PKCS#8 PEM, discarded once the key is retired
+  createdAt: string;
+  retiredAt?: string;
+}
+
+interface Keyring {
+  activeKeyId: string | null;
+  keys: SigningKey[];
+}
+
+export type PublicSigningKey = Omit<SigningKey, 'privateKey'>;
+
+export interface PayloadSignature {
+  algo: 'Ed25519';
+  keyId: string;
+  value: string; // base64
+  signedAt: string;
+}
+
+export interface SignatureVerification {
+  valid: boolean;
+  keyId?: string;
+  keyStatus?: 'active' | 'retired' | 'unknown';
+  reason?: string;
+}
+
+function createSigningKey(): SigningKey {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const spkiDer = publicKey.export({ type: 'spki', format: 'der' });
+
+  return {
+    // Key ID is a fingerprint of the public key so it can be checked independently
+    keyId: createHash('sha256').update(spkiDer).digest('hex').substring(0, 16),
+    algorithm: 'Ed25519',
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+function toPublicKey(key: SigningKey): PublicSigningKey {
+  return {
+    keyId: key.keyId,
+    algorithm: key.algorithm,
+    publicKey: key.publicKey,
+    createdAt: key.createdAt,
+    retiredAt: key.retiredAt,
+  };
+}
+
+async function loadKeyring(): Promise<Keyring> {
+  return readJSON<Keyring>(KEYRING_FILE, { activeKeyId: null, keys: [] });
+}
+
+async function getActiveKey(): Promise<SigningKey> {
+  return withLock(KEYRING_FILE, async () => {
+    const keyring = await loadKeyring();
+    const active = keyring.keys.find(k => k.keyId === keyring.activeKeyId);
+    if (active?.privateKey) {
+      return active;
+    }
+
+    // First use: generate the initial signing key
+    const key = createSigningKey();
+    await writeJSON(KEYRING_FILE, { activeKeyId: key.keyId, keys: [...keyring.keys, key] });
+    return key;
+  });
+}
+
+/**
+ * Retire the active key and start signing with a freshly generated one.
+ * Retired public keys are kept so previously signed reports still verify.
+ */
+export async function rotateSigningKey(): Promise<PublicSigningKey> {
+  return withLock(KEYRING_FILE, async () => {
+    const keyring = await loadKeyring();
+    const retiredAt = new Date().toISOString();
+    const key = createSigningKey();
+
+    const keys = keyring.keys.map(k =>
+      k.retiredAt ? k : { ...k, privateKey: undefined, retiredAt }
+    );
+    await writeJSON(KEYRING_FILE, { activeKeyId: key.keyId, keys: [...keys, key] });
+    return toPublicKey(key);
+  });
+}
+
+/**
+ * List every public key (active and retired) for independent verification
+ */
+export async function listPublicKeys(): Promise<PublicSigningKey[]> {
+  const keyring = await loadKeyring();
+  return keyring.keys.map(toPublicKey);
+}
+
+/**
+ * Bytes covered by the signature: report identity, query, snapshot hash
+ * and, on reports that record them, the provenance and follow-up drift
+ * digests (recomputed from `sources` and `drift`, so edits to either fail)
+ * and the timestamp token digest.
+ * Chain-of-custody events are appended after signing and are not covered.
+ */
+export function buildSignaturePayload(report: ForensicReport, signedAt: string): Buffer {
+  const payload = [
+    report.meta.reportId,
+    report.meta.createdAt,
+    report.meta.createdBy,
+    report.meta.caseId || '',
+    report.query.input,
+    report.query.mode,
+    report.hash.algo,
+    report.hash.value,
+    signedAt,
+    // Fields added after signing was introduced are only appended when present,
+    // so reports signed before they existed still verify
+    ...(report.hash.canonicalization ? [report.hash.canonicalization] : []),
+    ...(report.meta.capture ? [`capture:${report.meta.capture}`] : []),
+    ...(report.meta.redaction
+      ? [`redaction:${report.meta.redaction.profile}:${report.meta.redaction.originalHash}`]
+      : []),
+    ...(report.drift ? [`followUp:${report.drift.baseReportId}:${report.drift.baseHash}`] : []),
+    ...(report.hash.sourcesHash
+      ? [`sources:${createHash('sha256').update(canonicalize(report.sources)).digest('hex')}`]
+      : []),
+    ...(report.hash.driftHash
+      ? [`drift:${report.drift ? createHash('sha256').update(canonicalize(report.drift)).digest('hex') : 'missing'}`]
+      : []),
+    ...(report.hash.timestamped
+      ? [`timestamp:${report.timestamp
+        ? createHash('sha256').update(Buffer.from(report.timestamp.token, 'base64')).digest('hex')
+        : 'missing'}`]
+      : []),
+    ...(report.meta.batch ? [`batch:${report.meta.batch.jobId}:${report.meta.batch.row ?? 'manifest'}`] : []),
+  ];
+  return Buffer.from(JSON.stringify(payload), 'utf8');
+}
+
+/**
+ * Sign arbitrary bytes with the active server key. The payload builder
+ * receives the signing time so it can be covered by the signature.
+ */
+export async function signPayload(
+  buildPayload: (signedAt: string) => Buffer
+): Promise<PayloadSignature> {
+  const key = await getActiveKey();
+  const signedAt = new Date().toISOString();
+  const value = sign(null, buildPayload(signedAt), createPrivateKey(key.privateKey as string));
+
+  return {
+    algo: 'Ed25519',
+    keyId: key.keyId,
+    value: value.toString('base64'),
+    signedAt,
+  };
+}
+
+/**
+ * Verify a signature produced by signPayload against the server keyring
+ */
+export async function verifyPayloadSignature(
+  signature: PayloadSignature | undefined,
+  buildPayload: (signedAt: string) => Buffer
+): Promise<SignatureVerification> {
+  if (!signature) {
+    return { valid: false, reason: 'Not signed' };
+  }
+
+  const { keyId, value, signedAt, algo } = signature;
+  if (algo !== 'Ed25519') {
+    return { valid: false, keyId, reason: `Unsupported signature algorithm: ${algo}` };
+  }
+
+  const keyring = await loadKeyring();
+  const key = keyring.keys.find(k => k.keyId === keyId);
+  if (!key) {
+    return { valid: false, keyId, keyStatus: 'unknown', reason: 'Signing key not found' };
+  }
+
+  const keyStatus = key.retiredAt ? 'retired' : 'active';
+  if (key.retiredAt && signedAt > key.retiredAt) {
+    return { valid: false, keyId, keyStatus, reason: 'Signed after the key was retired' };
+  }
+
+  try {
+    const valid = verify(
+      null,
+      buildPayload(signedAt),
+      createPublicKey(key.publicKey),
+      Buffer.from(value, 'base64')
+    );
+    return valid
+      ? { valid, keyId, keyStatus }
+      : { valid, keyId, keyStatus, reason: 'Signature does not match signed contents' };
+  } catch {
+    return { valid: false, keyId, keyStatus, reason: 'Malformed signature' };
+  }
+}
+
+/**
+ * Sign a report with the active server key
+ */
+export async function signReport(report: ForensicReport): Promise<ForensicReport> {
+  const signature = await signPayload(signedAt => buildSignaturePayload(report, signedAt));
+  return { ...report, signature };
+}
+
+/**
+ * Verify a report's signature against the server keyring
+ */
+export async function verifyReportSignature(report: ForensicReport): Promise<SignatureVerification> {
+  if (!report.signature) {
+    return { valid: false, reason: 'Report is not signed' };
+  }
+  return verifyPayloadSignature(report.signature, signedAt => buildSignaturePayload(report, signedAt));
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import type { ProfileData } from './profile';
+import { listProfileSnapshots, saveProfileSnapshot } from './snapshots';
+
+function profile(userId: string, displayName: string): ProfileData {
+  return {
+    user: { userId, username: 'subject', displayName, avatarUrl: '', createdAt: '', description: '', isBanned: false },
+    counts: { friends: 0, followers: 0, following: 0 },
+    profile: { bio: '', detectedMentions: [], keywords: [] },
+    groups: [],
+    history: { pastDisplayNames: [], pastUsernames: [] },
+  };
+}
+
+describe('saveProfileSnapshot', () => {
+  it('skips a profile unchanged since the same source last saved it', async () => {
+    const first = await saveProfileSnapshot(profile('1', 'Same'), 'lookup');
+    const second = await saveProfileSnapshot(profile('1', 'Same'), 'lookup');
+
+    expect(second).toEqual(first);
+    expect(await listProfileSnapshots('1')).toHaveLength(1);
+  });
+
+  it('stores a changed profile, and an unchanged one from another source', async () => {
+    await saveProfileSnapshot(profile('2', 'Before'), 'lookup');
+    await saveProfileSnapshot(profile('2', 'After'), 'lookup');
+    await saveProfileSnapshot(profile('2', 'After'), 'watchlist');
+
+    expect((await listProfileSnapshots('2')).map(s => [s.source, s.profile.user.displayName])).toEqual([
+      ['lookup', 'Before'],
+      ['lookup', 'After'],
+      ['watchlist', 'After'],
+    ]);
+  });
+});
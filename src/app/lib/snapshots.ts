@@ -0,0 +1,83 @@
+// FILE: src/app/lib/snapshots.ts
+// Persistence - Dated profile snapshots per Roblox user (server only)
+
+import { createHash } from 'crypto';
+import { canonicalize } from './forensic';
+import { appendLine, readLines, withLock } from './storage';
+import type { ProfileData } from './profile';
+
+export interface ProfileSnapshot {
+  userId: string;
+  capturedAt: string;
+  // What triggered the fetch, e.g. 'lookup' or 'watchlist'
+  source: string;
+  // SHA-256 of the canonical (RFC 8785) profile
+  hash: string;
+  profile: ProfileData;
+  // Past usernames as reported by Roblox's username history at capture time
+  robloxUsernames?: string[];
+}
+
+function snapshotFile(userId: string): string {
+  if (!/^\d+$/.test(userId)) {
+    throw new Error(`Invalid user ID: ${userId}`);
+  }
+  return `snapshots/${userId}.ndjson`;
+}
+
+export function hashProfile(profile: ProfileData): string {
+  return createHash('sha256').update(canonicalize(profile)).digest('hex');
+}
+
+/**
+ * Append a dated snapshot of a profile to the user's history, unless it is
+ * unchanged since the last snapshot from the same source; that one is
+ * returned instead. Deduplicating per source rather than overall keeps each
+ * source's latest snapshot current, which watchlists diff against.
+ */
+export async function saveProfileSnapshot(
+  profile: ProfileData,
+  source: string,
+  robloxUsernames?: string[]
+): Promise<ProfileSnapshot> {
+  const file = snapshotFile(profile.user.userId);
+  const hash = hashProfile(profile);
+  return withLock(file, async () => {
+    const previous = await getLatestProfileSnapshot(profile.user.userId, source);
+    if (previous?.hash === hash) {
+      return previous;
+    }
+
+    const snapshot: ProfileSnapshot = {
+      userId: profile.user.userId,
+      capturedAt: new Date().toISOString(),
+      source,
+      hash,
+      profile,
+      robloxUsernames,
+    };
+    await appendLine(file, snapshot);
+    return snapshot;
+  });
+}
+
+/**
+ * All stored snapshots for a user, oldest first
+ */
+export async function listProfileSnapshots(userId: string): Promise<ProfileSnapshot[]> {
+  return readLines<ProfileSnapshot>(snapshotFile(userId));
+}
+
+/**
+ * The newest stored snapshot for a user, optionally only among those taken
+ * by one source
+ */
+export async function getLatestProfileSnapshot(userId: string, source?: string): Promise<ProfileSnapshot | null> {
+  const snapshots = await listProfileSnapshots(userId);
+  for (let i = snapshots.length - 1; i >= 0; i--) {
+    if (!source || snapshots[i].source === source) {
+      return snapshots[i];
+    }
+  }
+  return null;
+}
@@ -0,0 +1,90 @@
+// FILE: src/app/lib/storage.ts
+// Persistence - File-backed JSON storage (server only)
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Override with VERIFIER_DATA_DIR to keep evidence outside the project tree
+export const DATA_DIR = process.env.VERIFIER_DATA_DIR || path.join(process.cwd(), 'data');
+
+const locks = new Map<string, Promise<unknown>>();
+
+function resolvePath(name: string): string {
+  return path.join(DATA_DIR, name);
+}
+
+/**
+ * Serialize read-modify-write operations on a single store file
+ */
+export async function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const previous = locks.get(name) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(fn);
+  locks.set(name, next);
+  try {
+    return await next;
+  } finally {
+    if (locks.get(name) === next) {
+      locks.delete(name);
+    }
+  }
+}
+
+/**
+ * Read a JSON document, returning the fallback if it does not exist yet
+ */
+export async function readJSON<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(resolvePath(name), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw err;
+  }
+}
+
+/**
+ * Write a JSON document atomically (temp file + rename)
+ */
+export async function writeJSON(name: string, data: unknown): Promise<void> {
+  const filePath = resolvePath(name);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf8');
+  await fs.rename(tmpPath, filePath);
+}
+
+/**
+ * Append one record to a newline-delimited JSON file
+ */
+export async function appendLine(name: string, record: unknown): Promise<void> {
+  const filePath = resolvePath(name);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, JSON.stringify(record) + '\n', 'utf8');
+}
+
+/**
+ * Read the raw, non-empty lines of a newline-delimited JSON file
+ */
+export async function readRawLines(name: string): Promise<string[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(resolvePath(name), 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw err;
+  }
+
+  return raw.split('\n').filter(line => line.trim().length > 0);
+}
+
+/**
+ * Read every record from a newline-delimited JSON file
+ */
+export async function readLines<T>(name: string): Promise<T[]> {
+  const lines = await readRawLines(name);
+  return lines.map(line => JSON.parse(line) as T);
+}
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchAvatarHeadshot } from './thumbnail';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+
+function stubRoblox() {
+  const fetch = vi.fn(async (url: string) => {
+    const headshot = url.match(/avatar-headshot\?userIds=(\d+)/);
+    return headshot
+      ? Response.json({ data: [{ targetId: 1, state: 'Completed', imageUrl: `https://tr.rbxcdn.com/${headshot[1]}/48/48/Png` }] })
+      : new Response(PNG, { headers: { 'Content-Type': 'image/png' } });
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('fetchAvatarHeadshot', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('serves the image bytes from the cache on repeat lookups', async () => {
+    const fetch = stubRoblox();
+
+    const first = await fetchAvatarHeadshot('1');
+    const second = await fetchAvatarHeadshot('1');
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(first.ok && first.cache?.hit).toBe(false);
+    expect(second.ok && second.cache?.hit).toBe(true);
+    expect(second.ok && new Uint8Array(second.image)).toEqual(PNG);
+  });
+
+  it('downloads the image again when bypassing the cache', async () => {
+    const fetch = stubRoblox();
+
+    await fetchAvatarHeadshot('2');
+    const bypassed = await fetchAvatarHeadshot('2', { bypassCache: true });
+
+    expect(fetch).toHaveBeenCalledTimes(4);
+    expect(bypassed.ok && bypassed.cache?.hit).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+// FILE: src/app/lib/thumbnail.ts
+// Avatar thumbnails - Headshot lookup and download (server only)
+
+import type { CacheInfo } from './cache';
+import { describeRobloxError, downloadImage, getAvatarHeadshots, type LookupOptions } from './roblox';
+
+export type ThumbnailResult =
+  | { ok: true; image: ArrayBuffer; cache?: CacheInfo }
+  | { ok: false; status: number; error: string };
+
+/**
+ * Resolve a user's avatar headshot URL and download the PNG. Both steps are
+ * cached; the result reports how the image itself was served.
+ */
+export async function fetchAvatarHeadshot(userId: string, options: LookupOptions = {}): Promise<ThumbnailResult> {
+  try {
+    const { data: [thumbnail] } = await getAvatarHeadshots([userId], '48x48', options);
+    if (!thumbnail?.imageUrl) {
+      return { ok: false, status: 404, error: 'No image URL found' };
+    }
+    const { data: image, cache } = await downloadImage(thumbnail.imageUrl, options);
+    return { ok: true, image, cache };
+  } catch (err) {
+    const { status, error } = describeRobloxError(err);
+    return { ok: false, status, error };
+  }
+}
@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { createForensicReport, verifyReportIntegrity, type ForensicReport } from './forensic';
+import { signReport, verifyReportSignature } from './signing';
+import { DATA_DIR } from './storage';
+import { timestampReport } from './timestamp';
+
+vi.hoisted(() => {
+  process.env.FORENSIC_TSA_URL = 'local';
+});
+
+async function sealedReport(input: string): Promise<ForensicReport> {
+  return signReport(await timestampReport(
+    await createForensicReport({ user: { userId: '1', username: input } }, { input, mode: 'username' }, {})
+  ));
+}
+
+describe('timestamped reports', () => {
+  it('verifies a report timestamped by the local TSA', async () => {
+    const report = await sealedReport('subject');
+
+    expect(report.timestamp).toBeDefined();
+    expect(await verifyReportIntegrity(report)).toBe(true);
+    expect((await verifyReportSignature(report)).valid).toBe(true);
+  });
+
+  it('fails when the timestamp is stripped', async () => {
+    const report = await sealedReport('subject');
+    const stripped = { ...report, timestamp: undefined };
+
+    expect(await verifyReportIntegrity(stripped)).toBe(false);
+    expect((await verifyReportSignature(stripped)).valid).toBe(false);
+  });
+
+  it('fails when the timestamp is swapped for another report\'s token', async () => {
+    const report = await sealedReport('subject');
+    const other = await sealedReport('someone-else');
+
+    expect((await verifyReportSignature({ ...report, timestamp: other.timestamp })).valid).toBe(false);
+  });
+
+  it('rejects tokens from a TSA other than the pinned one', async () => {
+    const report = await sealedReport('subject');
+    // A fresh local TSA replaces the one that issued the token
+    await fs.rm(path.join(DATA_DIR, 'tsa-local.json'));
+    await sealedReport('new-tsa');
+
+    expect(await verifyReportIntegrity(report)).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+// FILE: src/app/lib/timestamp.ts
+// Forensic Mode - RFC 3161 trusted timestamping of report hashes (server only)
+
+import { randomBytes } from 'crypto';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { cryptoEngine, getLocalTSACertificate, issueLocalTimestamp, LOCAL_TSA_NAME, OID } from './tsa-local';
+import type { ForensicReport } from './forensic';
+
+// Unset: no timestamps. 'local': in-process stand-in TSA. Otherwise the TSA URL.
+const TSA_URL = process.env.FORENSIC_TSA_URL || '';
+const TSA_TIMEOUT_MS = 10000;
+// Certificate(s) of the remote TSA, PEM or base64 DER. Tokens are only
+// trusted when signed by one of these or by this installation's local TSA.
+const TSA_CERTIFICATES = process.env.FORENSIC_TSA_CERT || '';
+
+/**
+ * RFC 3161 timestamp token over a report's snapshot hash
+ */
+export interface ReportTimestamp {
+  tsa: string;
+  token: string; // DER-encoded TimeStampToken (CMS ContentInfo), base64
+  genTime: string;
+  serialNumber: string; // hex
+  policy: string;
+}
+
+export interface TimestampVerification {
+  valid: boolean;
+  tsa?: string;
+  genTime?: string;
+  reason?: string;
+}
+
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+export function isTimestampingEnabled(): boolean {
+  return TSA_URL !== '';
+}
+
+async function exchange(requestDer: Uint8Array): Promise<Uint8Array> {
+  if (TSA_URL === LOCAL_TSA_NAME) {
+    return issueLocalTimestamp(requestDer);
+  }
+
+  const response = await fetch(TSA_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/timestamp-query' },
+    body: Buffer.from(requestDer),
+    signal: AbortSignal.timeout(TSA_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`TSA responded with HTTP ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function parseToken(token: ArrayBuffer): { signedData: pkijs.SignedData; tstInfo: pkijs.TSTInfo } {
+  const contentInfo = pkijs.ContentInfo.fromBER(token);
+  if (contentInfo.contentType !== OID.signedData) {
+    throw new Error('Timestamp token is not CMS SignedData');
+  }
+
+  const signedData = new pkijs.SignedData({ schema: contentInfo.content });
+  const { eContentType, eContent } = signedData.encapContentInfo;
+  if (eContentType !== OID.tstInfo || !eContent) {
+    throw new Error('Timestamp token does not contain TSTInfo');
+  }
+
+  return { signedData, tstInfo: pkijs.TSTInfo.fromBER(eContent.getValue()) };
+}
+
+function parseCertificates(value: string): Buffer[] {
+  const pems = value.match(/-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g);
+  const blocks = pems
+    ? pems.map(pem => pem.replace(/-----(BEGIN|END) CERTIFICATE-----|\s/g, ''))
+    : value.split(/[\s,]+/).filter(Boolean);
+  return blocks.map(block => Buffer.from(block, 'base64'));
+}
+
+function publicKeyOf(certificate: pkijs.Certificate): Buffer {
+  return Buffer.from(certificate.subjectPublicKeyInfo.subjectPublicKey.valueBlock.valueHexView);
+}
+
+/**
+ * Public keys of the TSAs whose tokens are accepted: the configured remote
+ * TSA certificates and the local TSA, once it has been created
+ */
+async function trustedTsaKeys(): Promise<Buffer[]> {
+  const local = await getLocalTSACertificate();
+  return [...parseCertificates(TSA_CERTIFICATES), ...(local ? [local] : [])]
+    .map(der => publicKeyOf(pkijs.Certificate.fromBER(toArrayBuffer(der))));
+}
+
+/**
+ * Obtain a timestamp token for a SHA-256 hash from the configured TSA.
+ * Returns null when timestamping is not configured.
+ */
+export async function requestTimestamp(hashHex: string): Promise<ReportTimestamp | null> {
+  if (!isTimestampingEnabled()) {
+    return null;
+  }
+
+  const nonce = randomBytes(8);
+  nonce[0] &= 0x7f; // keep the INTEGER positive
+  const request = new pkijs.TimeStampReq({
+    version: 1,
+    messageImprint: new pkijs.MessageImprint({
+      hashAlgorithm: new pkijs.AlgorithmIdentifier({ algorithmId: OID.sha256 }),
+      hashedMessage: new asn1js.OctetString({ valueHex: toArrayBuffer(Buffer.from(hashHex, 'hex')) }),
+    }),
+    nonce: new asn1js.Integer({ valueHex: toArrayBuffer(nonce) }),
+    certReq: true,
+  });
+
+  const response = pkijs.TimeStampResp.fromBER(
+    toArrayBuffer(await exchange(new Uint8Array(request.toSchema().toBER(false))))
+  );
+  const status = response.status.status;
+  if (status !== pkijs.PKIStatus.granted && status !== pkijs.PKIStatus.grantedWithMods) {
+    const detail = response.status.statusStrings?.map(s => s.valueBlock.value).join('; ');
+    throw new Error(`TSA refused the request (status ${status}${detail ? `: ${detail}` : ''})`);
+  }
+  if (!response.timeStampToken) {
+    throw new Error('TSA response has no timestamp token');
+  }
+
+  const token = response.timeStampToken.toSchema().toBER(false);
+  const { tstInfo } = parseToken(token);
+
+  // The token must answer this request, not a replayed one
+  if (Buffer.from(tstInfo.messageImprint.hashedMessage.valueBlock.valueHexView).toString('hex') !== hashHex) {
+    throw new Error('TSA token covers a different hash');
+  }
+  if (!tstInfo.nonce || !Buffer.from(tstInfo.nonce.valueBlock.valueHexView).equals(nonce)) {
+    throw new Error('TSA token nonce does not match the request');
+  }
+
+  return {
+    tsa: TSA_URL,
+    token: Buffer.from(token).toString('base64'),
+    genTime: tstInfo.genTime.toISOString(),
+    serialNumber: Buffer.from(tstInfo.serialNumber.valueBlock.valueHexView).toString('hex'),
+    policy: tstInfo.policy,
+  };
+}
+
+/**
+ * Attach a timestamp over the report's snapshot hash when a TSA is
+ * configured. Call before signing: the report is marked as timestamped and
+ * the signature then covers the token, so it cannot be stripped or swapped.
+ */
+export async function timestampReport(report: ForensicReport): Promise<ForensicReport> {
+  const timestamp = await requestTimestamp(report.hash.value);
+  return timestamp ? { ...report, hash: { ...report.hash, timestamped: true }, timestamp } : report;
+}
+
+/**
+ * Check a timestamp token against the data it claims to cover: the message
+ * imprint must match, the CMS signature must verify, and the signing
+ * certificate must be a pinned TSA certificate (FORENSIC_TSA_CERT or the
+ * local TSA's); a token from any other TSA is rejected.
+ */
+export async function verifyTimestampToken(
+  timestamp: ReportTimestamp,
+  data: Uint8Array
+): Promise<TimestampVerification> {
+  try {
+    const { signedData, tstInfo } = parseToken(toArrayBuffer(Buffer.from(timestamp.token, 'base64')));
+    const genTime = tstInfo.genTime.toISOString();
+
+    if (genTime !== timestamp.genTime) {
+      return { valid: false, tsa: timestamp.tsa, genTime, reason: 'genTime does not match the token' };
+    }
+
+    // Checks the message imprint against the data, then the signature
+    const result = await signedData.verify(
+      { signer: 0, data: toArrayBuffer(data), checkDate: tstInfo.genTime, extendedMode: true },
+      cryptoEngine
+    );
+    if (!result.signatureVerified) {
+      return { valid: false, tsa: timestamp.tsa, genTime, reason: result.message || 'Signature is invalid' };
+    }
+
+    const signerKey = result.signerCertificate ? publicKeyOf(result.signerCertificate) : null;
+    if (!signerKey || !(await trustedTsaKeys()).some(key => key.equals(signerKey))) {
+      return { valid: false, tsa: timestamp.tsa, genTime, reason: 'Token is not signed by a trusted TSA' };
+    }
+
+    return { valid: true, tsa: timestamp.tsa, genTime };
+  } catch (err) {
+    return {
+      valid: false,
+      tsa: timestamp.tsa,
+      reason: err instanceof Error ? err.message : 'Malformed timestamp token',
+    };
+  }
+}
@@ -0,0 +1,192 @@
+// FILE: src/app/lib/tsa-local.ts
+// Forensic Mode - In-process RFC 3161 time-stamping authority for offline use and testing (server only)
+
+import { randomBytes, webcrypto } from 'crypto';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
+import { readJSON, withLock, writeJSON } from './storage';
+
+const TSA_FILE = 'tsa-local.json';
+
+export const LOCAL_TSA_NAME = 'local';
+// Private-use policy OID; tokens from this TSA carry no external trust
+const LOCAL_TSA_POLICY = '1.3.6.1.4.1.57264.1.1';
+
+export const OID = {
+  sha256: '2.16.840.1.101.3.4.2.1',
+  signedData: '1.2.840.113549.1.7.2',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  extKeyUsage: '2.5.29.37',
+  timeStamping: '1.3.6.1.5.5.7.3.8',
+  commonName: '2.5.4.3',
+};
+
+interface LocalTSA {
+  certificate: string; // DER, base64
+  privateKey: string; // PKCS#8 DER, base64
+  createdAt: string;
+}
+
+const ECDSA = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+
+export const cryptoEngine = new pkijs.CryptoEngine({
+  name: 'node',
+  crypto: webcrypto as unknown as Crypto,
+});
+
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+}
+
+function randomSerial(): asn1js.Integer {
+  const bytes = randomBytes(8);
+  bytes[0] &= 0x7f; // serial numbers must be positive
+  return new asn1js.Integer({ valueHex: toArrayBuffer(bytes) });
+}
+
+async function createLocalTSA(): Promise<LocalTSA> {
+  const keys = await webcrypto.subtle.generateKey(ECDSA, true, ['sign', 'verify']);
+  const name = new pkijs.RelativeDistinguishedNames({
+    typesAndValues: [
+      new pkijs.AttributeTypeAndValue({
+        type: OID.commonName,
+        value: new asn1js.Utf8String({ value: 'Roblox Verifier Local TSA' }),
+      }),
+    ],
+  });
+
+  const notBefore = new Date();
+  const notAfter = new Date(notBefore);
+  notAfter.setFullYear(notAfter.getFullYear() + 10);
+
+  const certificate = new pkijs.Certificate({
+    version: 2,
+    serialNumber: randomSerial(),
+    issuer: name,
+    subject: name,
+    notBefore: new pkijs.Time({ type: 1, value: notBefore }),
+    notAfter: new pkijs.Time({ type: 1, value: notAfter }),
+    // RFC 3161 2.3: a TSA certificate has exactly one, critical, extended key usage
+    extensions: [
+      new pkijs.Extension({
+        extnID: OID.extKeyUsage,
+        critical: true,
+        extnValue: new pkijs.ExtKeyUsage({ keyPurposes: [OID.timeStamping] }).toSchema().toBER(false),
+      }),
+    ],
+  });
+  await certificate.subjectPublicKeyInfo.importKey(keys.publicKey, cryptoEngine);
+  await certificate.sign(keys.privateKey, 'SHA-256', cryptoEngine);
+
+  const pkcs8 = await webcrypto.subtle.exportKey('pkcs8', keys.privateKey);
+  return {
+    certificate: Buffer.from(certificate.toSchema().toBER(false)).toString('base64'),
+    privateKey: Buffer.from(pkcs8).toString('base64'),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+async function getLocalTSA(): Promise<{ certificate: pkijs.Certificate; privateKey: CryptoKey }> {
+  const tsa = await withLock(TSA_FILE, async () => {
+    const existing = await readJSON<LocalTSA | null>(TSA_FILE, null);
+    if (existing) {
+      return existing;
+    }
+
+    // First use: generate the TSA key and self-signed certificate
+    const created = await createLocalTSA();
+    await writeJSON(TSA_FILE, created);
+    return created;
+  });
+
+  const privateKey = await webcrypto.subtle.importKey(
+    'pkcs8',
+    Buffer.from(tsa.privateKey, 'base64'),
+    ECDSA,
+    false,
+    ['sign']
+  );
+  return {
+    certificate: pkijs.Certificate.fromBER(Buffer.from(tsa.certificate, 'base64')),
+    privateKey: privateKey as CryptoKey,
+  };
+}
+
+/**
+ * This installation's local TSA certificate (DER), or null before its first use
+ */
+export async function getLocalTSACertificate(): Promise<Buffer | null> {
+  const tsa = await readJSON<LocalTSA | null>(TSA_FILE, null);
+  return tsa ? Buffer.from(tsa.certificate, 'base64') : null;
+}
+
+/**
+ * Answer a DER-encoded TimeStampReq with a DER-encoded TimeStampResp, the
+ * same exchange a remote TSA performs over HTTP
+ */
+export async function issueLocalTimestamp(requestDer: Uint8Array): Promise<Uint8Array> {
+  const request = pkijs.TimeStampReq.fromBER(toArrayBuffer(requestDer));
+  if (request.messageImprint.hashAlgorithm.algorithmId !== OID.sha256) {
+    const rejection = new pkijs.TimeStampResp({
+      status: new pkijs.PKIStatusInfo({ status: pkijs.PKIStatus.rejection }),
+    });
+    return new Uint8Array(rejection.toSchema().toBER(false));
+  }
+
+  const { certificate, privateKey } = await getLocalTSA();
+
+  const tstInfo = new pkijs.TSTInfo({
+    version: 1,
+    policy: request.reqPolicy || LOCAL_TSA_POLICY,
+    messageImprint: request.messageImprint,
+    serialNumber: randomSerial(),
+    genTime: new Date(),
+    ordering: false,
+    ...(request.nonce ? { nonce: request.nonce } : {}),
+  });
+  const tstInfoDer = tstInfo.toSchema().toBER(false);
+  const digest = await webcrypto.subtle.digest('SHA-256', tstInfoDer);
+
+  const signedData = new pkijs.SignedData({
+    version: 3,
+    encapContentInfo: new pkijs.EncapsulatedContentInfo({ eContentType: OID.tstInfo }),
+    signerInfos: [
+      new pkijs.SignerInfo({
+        version: 1,
+        sid: new pkijs.IssuerAndSerialNumber({
+          issuer: certificate.issuer,
+          serialNumber: certificate.serialNumber,
+        }),
+        signedAttrs: new pkijs.SignedAndUnsignedAttributes({
+          type: 0,
+          attributes: [
+            new pkijs.Attribute({
+              type: OID.contentType,
+              values: [new asn1js.ObjectIdentifier({ value: OID.tstInfo })],
+            }),
+            new pkijs.Attribute({
+              type: OID.messageDigest,
+              values: [new asn1js.OctetString({ valueHex: digest })],
+            }),
+          ],
+        }),
+      }),
+    ],
+    ...(request.certReq ? { certificates: [certificate] } : {}),
+  });
+  // Assigned after construction: the constructor would re-encode it as a
+  // constructed OCTET STRING, which TSA clients (pkijs included) reject
+  signedData.encapContentInfo.eContent = new asn1js.OctetString({ valueHex: tstInfoDer });
+  await signedData.sign(privateKey, 0, 'SHA-256', undefined, cryptoEngine);
+
+  const response = new pkijs.TimeStampResp({
+    status: new pkijs.PKIStatusInfo({ status: pkijs.PKIStatus.granted }),
+    timeStampToken: new pkijs.ContentInfo({
+      contentType: OID.signedData,
+      content: signedData.toSchema(true),
+    }),
+  });
+  return new Uint8Array(response.toSchema().toBER(false));
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ProfileData } from './profile';
+import { saveProfileSnapshot } from './snapshots';
+import { createWatchlist, runWatchlist } from './watchlists';
+
+const live = vi.hoisted(() => ({ displayName: 'Before' }));
+
+// Stands in for Roblox: returns the live profile and records it the way
+// fetchProfile does
+vi.mock('./profile', () => ({
+  fetchProfile: async (userId: string, source: string) => {
+    const profile = {
+      user: { userId, username: 'subject', displayName: live.displayName, isBanned: false },
+      profile: { bio: '', detectedMentions: [], keywords: [] },
+      groups: [],
+    } as unknown as ProfileData;
+    await saveProfileSnapshot(profile, source);
+    return { profile, provenance: [], raw: {} };
+  },
+}));
+
+describe('runWatchlist', () => {
+  it('alerts on a change even when a lookup saw it first', async () => {
+    const { fetchProfile } = await import('./profile');
+    const watchlist = await createWatchlist({ name: 'Subjects', createdBy: 'analyst@example.com', userIds: ['42'] });
+
+    expect((await runWatchlist(watchlist.id))!.alerts).toHaveLength(0);
+
+    live.displayName = 'After';
+    await fetchProfile('42', 'lookup');
+
+    const result = await runWatchlist(watchlist.id);
+    expect(result!.alerts).toHaveLength(1);
+    expect(result!.alerts[0].changes.map(change => change.field)).toContain('user.displayName');
+
+    expect((await runWatchlist(watchlist.id))!.alerts).toHaveLength(0);
+  });
+});
@@ -0,0 +1,253 @@
+// FILE: src/app/lib/watchlists.ts
+// Watchlists - Watched accounts, scheduled re-checks and change alerts (server only)
+
+import { randomUUID } from 'crypto';
+import { diffSnapshots, type ProfileChange } from './drift';
+import { fetchProfile } from './profile';
+import { getLatestProfileSnapshot } from './snapshots';
+import { readJSON, withLock, writeJSON } from './storage';
+
+const WATCHLISTS_FILE = 'watchlists.json';
+const ALERTS_FILE = 'alerts.json';
+
+// Optional: every alert is also POSTed here as JSON
+const WEBHOOK_URL = process.env.WATCHLIST_WEBHOOK_URL || '';
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export const MIN_INTERVAL_MINUTES = 5;
+export const DEFAULT_INTERVAL_MINUTES = 60;
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  createdBy: string;
+  createdAt: string;
+  userIds: string[];
+  intervalMinutes: number;
+  lastRunAt?: string;
+}
+
+export interface WatchAlert {
+  id: string;
+  watchlistId: string;
+  watchlistName: string;
+  userId: string;
+  username: string;
+  createdAt: string;
+  changes: ProfileChange[];
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+}
+
+export interface WatchRunResult {
+  watchlistId: string;
+  checked: number;
+  failed: string[];
+  alerts: WatchAlert[];
+}
+
+/**
+ * Whether a change is one we alert on: display name, bio keyword flags,
+ * group memberships or ban status
+ */
+function isAlertable(change: ProfileChange): boolean {
+  return (
+    change.field === 'user.displayName' ||
+    change.field === 'user.isBanned' ||
+    change.field === 'profile.keywords' ||
+    change.field.startsWith('groups[')
+  );
+}
+
+async function loadWatchlists(): Promise<Watchlist[]> {
+  return readJSON<Watchlist[]>(WATCHLISTS_FILE, []);
+}
+
+async function updateWatchlist(id: string, change: (w: Watchlist) => void): Promise<Watchlist | null> {
+  return withLock(WATCHLISTS_FILE, async () => {
+    const watchlists = await loadWatchlists();
+    const found = watchlists.find(w => w.id === id);
+    if (!found) {
+      return null;
+    }
+    change(found);
+    await writeJSON(WATCHLISTS_FILE, watchlists);
+    return found;
+  });
+}
+
+export async function listWatchlists(): Promise<Watchlist[]> {
+  return loadWatchlists();
+}
+
+export async function getWatchlist(id: string): Promise<Watchlist | null> {
+  const watchlists = await loadWatchlists();
+  return watchlists.find(w => w.id === id) || null;
+}
+
+export async function createWatchlist(input: {
+  name: string;
+  createdBy: string;
+  userIds?: string[];
+  intervalMinutes?: number;
+}): Promise<Watchlist> {
+  return withLock(WATCHLISTS_FILE, async () => {
+    const watchlists = await loadWatchlists();
+    const created: Watchlist = {
+      id: randomUUID(),
+      name: input.name,
+      createdBy: input.createdBy,
+      createdAt: new Date().toISOString(),
+      userIds: Array.from(new Set(input.userIds || [])),
+      intervalMinutes: Math.max(MIN_INTERVAL_MINUTES, input.intervalMinutes || DEFAULT_INTERVAL_MINUTES),
+    };
+    await writeJSON(WATCHLISTS_FILE, [...watchlists, created]);
+    return created;
+  });
+}
+
+export async function editWatchlist(
+  id: string,
+  edit: { name?: string; intervalMinutes?: number; addUserIds?: string[]; removeUserIds?: string[] }
+): Promise<Watchlist | null> {
+  return updateWatchlist(id, w => {
+    if (edit.name) w.name = edit.name;
+    if (edit.intervalMinutes) w.intervalMinutes = Math.max(MIN_INTERVAL_MINUTES, edit.intervalMinutes);
+    const removed = new Set(edit.removeUserIds || []);
+    w.userIds = Array.from(new Set([...w.userIds, ...(edit.addUserIds || [])])).filter(u => !removed.has(u));
+  });
+}
+
+export async function deleteWatchlist(id: string): Promise<boolean> {
+  return withLock(WATCHLISTS_FILE, async () => {
+    const watchlists = await loadWatchlists();
+    const remaining = watchlists.filter(w => w.id !== id);
+    if (remaining.length === watchlists.length) {
+      return false;
+    }
+    await writeJSON(WATCHLISTS_FILE, remaining);
+    return true;
+  });
+}
+
+/**
+ * Alerts, newest first
+ */
+export async function listAlerts(options: { unacknowledgedOnly?: boolean } = {}): Promise<WatchAlert[]> {
+  const alerts = await readJSON<WatchAlert[]>(ALERTS_FILE, []);
+  return alerts
+    .filter(a => !options.unacknowledgedOnly || !a.acknowledgedAt)
+    .reverse();
+}
+
+export async function acknowledgeAlert(id: string, actor: string): Promise<WatchAlert | null> {
+  return withLock(ALERTS_FILE, async () => {
+    const alerts = await readJSON<WatchAlert[]>(ALERTS_FILE, []);
+    const found = alerts.find(a => a.id === id);
+    if (!found) {
+      return null;
+    }
+    if (!found.acknowledgedAt) {
+      found.acknowledgedAt = new Date().toISOString();
+      found.acknowledgedBy = actor;
+      await writeJSON(ALERTS_FILE, alerts);
+    }
+    return found;
+  });
+}
+
+async function pushWebhook(alert: WatchAlert): Promise<void> {
+  if (!WEBHOOK_URL) return;
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'watchlist.alert', alert }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error(`Watchlist webhook responded with HTTP ${response.status}`);
+    }
+  } catch (err) {
+    console.error('Watchlist webhook error:', err);
+  }
+}
+
+/**
+ * Re-fetch every account on a watchlist, store the snapshots and raise an
+ * alert for each account whose alertable fields changed since the last
+ * watchlist check. Snapshots from lookups, reports or cases in between are
+ * not a baseline, or a change an analyst saw first would never alert. The
+ * first watchlist snapshot of an account is its baseline and never alerts.
+ */
+export async function runWatchlist(id: string): Promise<WatchRunResult | null> {
+  const watchlist = await getWatchlist(id);
+  if (!watchlist) {
+    return null;
+  }
+
+  const result: WatchRunResult = { watchlistId: id, checked: 0, failed: [], alerts: [] };
+
+  // Sequential on purpose: watchlists can be long and Roblox rate-limits per IP
+  for (const userId of watchlist.userIds) {
+    try {
+      const previous = await getLatestProfileSnapshot(userId, 'watchlist');
+      const fetched = await fetchProfile(userId, 'watchlist', { bypassCache: true });
+      if (!fetched) {
+        result.failed.push(userId);
+        continue;
+      }
+      result.checked++;
+
+      if (!previous) continue;
+      const changes = diffSnapshots(
+        previous.profile as unknown as Record<string, unknown>,
+        fetched.profile as unknown as Record<string, unknown>
+      ).filter(isAlertable);
+      if (changes.length === 0) continue;
+
+      result.alerts.push({
+        id: randomUUID(),
+        watchlistId: watchlist.id,
+        watchlistName: watchlist.name,
+        userId,
+        username: fetched.profile.user.username,
+        createdAt: new Date().toISOString(),
+        changes,
+      });
+    } catch (err) {
+      console.error(`Watchlist check failed for user ${userId}:`, err);
+      result.failed.push(userId);
+    }
+  }
+
+  if (result.alerts.length > 0) {
+    await withLock(ALERTS_FILE, async () => {
+      const alerts = await readJSON<WatchAlert[]>(ALERTS_FILE, []);
+      await writeJSON(ALERTS_FILE, [...alerts, ...result.alerts]);
+    });
+    await Promise.all(result.alerts.map(pushWebhook));
+  }
+
+  await updateWatchlist(id, w => {
+    w.lastRunAt = new Date().toISOString();
+  });
+  return result;
+}
+
+/**
+ * Run every watchlist whose interval has elapsed since its last run
+ */
+export async function runDueWatchlists(now: Date = new Date()): Promise<WatchRunResult[]> {
+  const watchlists = await loadWatchlists();
+  const due = watchlists.filter(w =>
+    !w.lastRunAt || now.getTime() - new Date(w.lastRunAt).getTime() >= w.intervalMinutes * 60 * 1000
+  );
+
+  const results: WatchRunResult[] = [];
+  for (const watchlist of due) {
+    const result = await runWatchlist(watchlist.id);
+    if (result) results.push(result);
+  }
+  return results;
+}
@@ -5,6 +5,7 @@ import { useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
 import Papa from 'papaparse';
 import Image from 'next/image';
+import Link from 'next/link';
 import { useSession, signOut } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 
@@ -12,23 +13,11 @@ import { useRouter } from 'next/navigation';
 import DeepContext from './components/DeepContext';
 import SmartSuggest from './components/SmartSuggest';
 import ForensicMode from './components/ForensicMode';
+import BatchJobProgress from './components/BatchJobProgress';
+import CsvColumnMapper, { type MappedRow } from './components/CsvColumnMapper';
+import { normalizeInput, verifiedDetails } from './lib/input';
 import { getTopSuggestions } from './lib/ranking';
 
-function normalizeInput(rawInput: string): { type: 'username' | 'displayName' | 'userId' | 'url' | 'invalid'; value: string; userId?: string } {
-  const trimmed = rawInput.trim();
-  if (!trimmed) return { type: 'invalid', value: '' };
-
-  const urlMatch = trimmed.match(/roblox\.com\/users\/(\d+)\/profile/i);
-  if (urlMatch) return { type: 'url', value: trimmed, userId: urlMatch[1] };
-
-  if (/^\d+$/.test(trimmed)) return { type: 'userId', value: trimmed };
-
-  const usernameMatch = trimmed.match(/^@?([a-zA-Z0-9_]+)$/);
-  if (usernameMatch) return { type: 'username', value: usernameMatch[1] };
-
-  return { type: 'displayName', value: trimmed };
-}
-
 interface UserResult {
   id: number;
   name: string;
@@ -40,6 +29,26 @@ interface UserResult {
 
 type RobloxResponse = UserResult | { error: string };
 
+// How often the browser re-sends a request the server reported as rate limited
+const RATE_LIMIT_RETRIES = 3;
+
+class RateLimitedError extends Error {}
+
+interface RateLimitNotice {
+  input: string;
+  retryInSeconds: number;
+  attempt: number;
+}
+
+/**
+ * Error for a failed API route response, using the route's message when it has one
+ */
+async function responseError(response: Response): Promise<Error> {
+  const data = await response.json().catch(() => ({}));
+  const message = data.error || 'Roblox API error';
+  return response.status === 429 ? new RateLimitedError(message) : new Error(message);
+}
+
 interface ScoredCandidate {
   user: UserResult;
   confidence: number;
@@ -53,7 +62,7 @@ interface ScoredCandidate {
   breakdown: string[];
 }
 
-interface BatchOutput {
+interface LookupOutput {
   input: string;
   status: string;
   details?: string;
@@ -69,15 +78,19 @@ function VerifierTool() {
   const [result, setResult] = useState<ReactNode | null>(null);
   const [includeBanned, setIncludeBanned] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [batchResults, setBatchResults] = useState<BatchOutput[]>([]);
-  const [isBatchMode, setIsBatchMode] = useState(false);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<{ fileName: string; rows: string[][] } | null>(null);
+  const [startingJob, setStartingJob] = useState(false);
   const [forensicMode, setForensicMode] = useState(false);
+  const [caseId, setCaseId] = useState('');
   const [currentSnapshot, setCurrentSnapshot] = useState<Record<string, unknown> | null>(null);
   const [currentQuery, setCurrentQuery] = useState<{ input: string; mode: 'username' | 'userId' | 'displayName' } | null>(null);
   const [showDeepContext, setShowDeepContext] = useState(false);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
   const [scoredCandidates, setScoredCandidates] = useState<ScoredCandidate[]>([]);
   const [originalDisplayNameQuery, setOriginalDisplayNameQuery] = useState<string>('');
+  const [openAlertCount, setOpenAlertCount] = useState(0);
+  const [rateLimitNotice, setRateLimitNotice] = useState<RateLimitNotice | null>(null);
 
   useEffect(() => {
     if (status === 'unauthenticated') {
@@ -85,192 +98,266 @@ function VerifierTool() {
     }
   }, [status, router]);
 
-  const handleSubmit = async (e: React.FormEvent, batchInputs: string[] = []) => {
-    e.preventDefault();
-    setLoading(true);
-    
-    // Always clear these at the start of a new search
-    setResult(null);
-    setBatchResults([]);
-    setScoredCandidates([]);
-    setOriginalDisplayNameQuery('');
-    
-    const isBatch = batchInputs.length > 0;
-    setIsBatchMode(isBatch);
-
-    const inputs = isBatch ? batchInputs : [input];
-    const outputs: BatchOutput[] = [];
-
-    for (const singleInput of inputs) {
-      const parsed = normalizeInput(singleInput);
-      if (parsed.type === 'invalid') {
-        outputs.push({ input: singleInput, status: 'Invalid', details: 'Invalid input' });
-        continue;
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+    fetch('/api/alerts?unacknowledged=true')
+      .then(res => (res.ok ? res.json() : { alerts: [] }))
+      .then((data: { alerts: unknown[] }) => setOpenAlertCount(data.alerts.length))
+      .catch(err => console.error('Failed to fetch alerts:', err));
+  }, [status]);
+
+  /**
+   * fetch() that waits out 429s from our API routes (which have already
+   * retried upstream), showing a "rate limited, retrying" notice meanwhile
+   */
+  const fetchWithRateLimit = async (forInput: string, url: string, init?: RequestInit): Promise<Response> => {
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(url, init);
+      if (response.status !== 429 || attempt > RATE_LIMIT_RETRIES) {
+        setRateLimitNotice(null);
+        return response;
       }
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      const retryInSeconds = retryAfter > 0 ? retryAfter : 2 ** attempt;
+      setRateLimitNotice({ input: forInput, retryInSeconds, attempt });
+      await new Promise(resolve => setTimeout(resolve, retryInSeconds * 1000));
+    }
+  };
 
-      if (forensicMode && !isBatch) {
-        const mode: 'username' | 'userId' | 'displayName' = parsed.type === 'url' ? 'userId' : parsed.type;
-        setCurrentQuery({ input: parsed.value, mode });
-      }
+  /**
+   * Look up one input: exact username or ID first, falling back to ranked
+   * suggestions from the search
+   */
+  const lookupInput = async (singleInput: string, bypassCache: boolean): Promise<LookupOutput> => {
+    const parsed = normalizeInput(singleInput);
+    if (parsed.type === 'invalid') {
+      return { input: singleInput, status: 'Invalid', details: 'Invalid input' };
+    }
 
-      try {
-        let response;
-        let user: RobloxResponse | null = null;
-
-        if (parsed.type === 'username') {
-          response = await fetch('/api/roblox', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ username: parsed.value, includeBanned }),
-          });
-          if (!response.ok) throw new Error('Roblox API error');
-          const data = await response.json();
-          user = data.data?.[0] || null;
-        } else if (parsed.type === 'userId' || parsed.type === 'url') {
-          const id = parsed.userId || parsed.value;
-          response = await fetch(`/api/roblox?userId=${id}`);
-          if (!response.ok) throw new Error('Roblox API error');
+    if (forensicMode) {
+      const mode: 'username' | 'userId' | 'displayName' = parsed.type === 'url' ? 'userId' : parsed.type;
+      setCurrentQuery({ input: parsed.value, mode });
+      // Until this lookup captures its own profile, a report must not be
+      // generated from the previous account under the new query
+      setCurrentSnapshot(null);
+    }
+
+    const cacheParam = bypassCache ? '&bypassCache=true' : '';
+    const suggest = async (): Promise<LookupOutput> => {
+      const response = await fetchWithRateLimit(
+        singleInput,
+        `/api/search?keyword=${encodeURIComponent(parsed.value)}&limit=10${cacheParam}`
+      );
+      if (!response.ok) throw await responseError(response);
+      const searchData = await response.json();
+      const candidates = getTopSuggestions(parsed.value, searchData.data || [], 10);
+      setScoredCandidates(candidates);
+
+      return {
+        input: singleInput,
+        status: candidates.length > 0 ? 'Suggestions' : 'Not Found',
+        suggestions: candidates,
+        details: candidates.length === 0 ? 'No matches' : undefined,
+      };
+    };
+
+    try {
+      let response;
+      let user: RobloxResponse | null = null;
+
+      if (parsed.type === 'username') {
+        response = await fetchWithRateLimit(singleInput, '/api/roblox', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ username: parsed.value, includeBanned, bypassCache }),
+        });
+        if (!response.ok) throw await responseError(response);
+        const data = await response.json();
+        user = data.data?.[0] || null;
+      } else if (parsed.type === 'userId' || parsed.type === 'url') {
+        const id = parsed.userId || parsed.value;
+        response = await fetchWithRateLimit(singleInput, `/api/roblox?userId=${id}${cacheParam}`);
+        // Unknown IDs fall through to the suggestion search below
+        if (response.status !== 404) {
+          if (!response.ok) throw await responseError(response);
           user = await response.json();
-        } else {
-          // Display name search
-          if (!isBatch) {
-            setOriginalDisplayNameQuery(parsed.value);
-          }
-          
-          response = await fetch(`/api/search?keyword=${encodeURIComponent(parsed.value)}&limit=10`);
-          if (!response.ok) throw new Error('Roblox API error');
-          const searchData = await response.json();
-          const candidates = getTopSuggestions(parsed.value, searchData.data || [], 10);
-          
-          if (!isBatch) {
-            setScoredCandidates(candidates);
-          }
-          
-          outputs.push({
-            input: singleInput,
-            status: candidates.length > 0 ? 'Suggestions' : 'Not Found',
-            suggestions: candidates,
-            details: candidates.length === 0 ? 'No matches' : undefined,
-          });
-          continue;
         }
+      } else {
+        // Display name search
+        setOriginalDisplayNameQuery(parsed.value);
+        return await suggest();
+      }
 
-        if (user && !('error' in user)) {
-          if (forensicMode && !isBatch) {
-            try {
-              const profileResponse = await fetch(`/api/profile/${user.id}`);
-              if (profileResponse.ok) {
-                const profileData = await profileResponse.json();
-                setCurrentSnapshot(profileData);
-              }
-            } catch (error) {
-              console.error('Failed to fetch profile for forensic mode:', error);
-            }
-          }
+      if (!user || 'error' in user) {
+        return await suggest();
+      }
 
-          outputs.push({
-            input: singleInput,
-            status: 'Verified',
-            details: `Username: ${user.name}, Display Name: ${user.displayName}, ID: ${user.id}, Verified Badge: ${user.hasVerifiedBadge ? 'Yes' : 'No'}`,
-            avatar: user.id,
-          });
-        } else {
-          response = await fetch(`/api/search?keyword=${encodeURIComponent(parsed.value)}&limit=10`);
-          if (!response.ok) throw new Error('Roblox API error');
-          const searchData = await response.json();
-          const candidates = getTopSuggestions(parsed.value, searchData.data || [], 10);
-          
-          if (!isBatch) {
-            setScoredCandidates(candidates);
+      if (forensicMode) {
+        try {
+          const profileResponse = await fetchWithRateLimit(singleInput, `/api/profile/${user.id}?bypassCache=true`);
+          if (profileResponse.ok) {
+            const profileData = await profileResponse.json();
+            setCurrentSnapshot(profileData);
           }
-          
-          outputs.push({
-            input: singleInput,
-            status: candidates.length > 0 ? 'Suggestions' : 'Not Found',
-            suggestions: candidates,
-            details: candidates.length === 0 ? 'No matches' : undefined,
-          });
+        } catch (error) {
+          console.error('Failed to fetch profile for forensic mode:', error);
         }
-      } catch (error: unknown) {
-        console.error('API Error:', error);
-        const errorMessage = error instanceof Error ? error.message : 'Could not connect to Roblox API. Try again.';
-        outputs.push({ input: singleInput, status: 'Error', details: errorMessage });
       }
+
+      return {
+        input: singleInput,
+        status: 'Verified',
+        details: verifiedDetails(user, parsed),
+        avatar: user.id,
+      };
+    } catch (error: unknown) {
+      console.error('API Error:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Could not connect to Roblox API. Try again.';
+      return {
+        input: singleInput,
+        status: error instanceof RateLimitedError ? 'Rate Limited' : 'Error',
+        details: errorMessage,
+      };
     }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    
+    // Always clear these at the start of a new search
+    setResult(null);
+    setActiveJobId(null);
+    setScoredCandidates([]);
+    setOriginalDisplayNameQuery('');
 
-    setBatchResults(outputs);
+    // Forensic lookups always go to Roblox rather than the server cache
+    const out = await lookupInput(input, forensicMode);
+
+    // Forensic searches made under a case are recorded on it
+    if (forensicMode && caseId && out.status !== 'Invalid') {
+      const parsed = normalizeInput(input);
+      fetch(`/api/cases/${encodeURIComponent(caseId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'search',
+          input: parsed.value,
+          mode: parsed.type === 'url' ? 'userId' : parsed.type,
+          resultUserId: out.avatar?.toString(),
+        }),
+      }).catch(error => console.error('Failed to record search on case:', error));
+    }
 
-    if (!isBatch && outputs.length === 1) {
-      const out = outputs[0];
-      
-      // Clear input only after successful verification
-      if (out.status === 'Verified') {
-        setInput('');
-      }
-      
-      if (out.status === 'Verified') {
-        setResult(
-          <div className="bg-green-100 p-4 rounded-md">
-            <h2 className="text-xl font-bold text-green-800 mb-2">✓ Verified!</h2>
-            <p className="mb-3">{out.details}</p>
-            {out.avatar && (
-              <Image
-                src={`/api/thumbnail?userId=${out.avatar}`}
-                alt="Avatar"
-                width={64}
-                height={64}
-                className="mt-2 rounded-full"
-              />
-            )}
-            <button
-              onClick={() => {
-                setSelectedUserId(out.avatar?.toString() || null);
-                setShowDeepContext(true);
-              }}
-              className="mt-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition"
-            >
-              🔍 View Full Profile
-            </button>
-          </div>
-        );
-      } else if (out.status === 'Not Found') {
-        setResult(
-          <div className="bg-red-100 p-4 rounded-md">
-            <h2 className="text-xl font-bold text-red-800">{out.status}</h2>
-            <p>{out.details}</p>
-          </div>
-        );
-      }
+    // Clear input only after successful verification
+    if (out.status === 'Verified') {
+      setInput('');
+    }
+    
+    if (out.status === 'Verified') {
+      setResult(
+        <div className="bg-green-100 p-4 rounded-md">
+          <h2 className="text-xl font-bold text-green-800 mb-2">✓ Verified!</h2>
+          <p className="mb-3">{out.details}</p>
+          {out.avatar && (
+            <Image
+              src={`/api/thumbnail?userId=${out.avatar}`}
+              alt="Avatar"
+              width={64}
+              height={64}
+              className="mt-2 rounded-full"
+            />
+          )}
+          <button
+            onClick={() => {
+              setSelectedUserId(out.avatar?.toString() || null);
+              setShowDeepContext(true);
+            }}
+            className="mt-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 transition"
+          >
+            🔍 View Full Profile
+          </button>
+        </div>
+      );
+    } else if (out.status === 'Rate Limited') {
+      setResult(
+        <div className="bg-yellow-100 p-4 rounded-md">
+          <h2 className="text-xl font-bold text-yellow-800">⏳ Rate Limited</h2>
+          <p>Roblox is throttling lookups. Wait a minute and try again.</p>
+        </div>
+      );
+    } else if (out.status === 'Not Found') {
+      setResult(
+        <div className="bg-red-100 p-4 rounded-md">
+          <h2 className="text-xl font-bold text-red-800">{out.status}</h2>
+          <p>{out.details}</p>
+        </div>
+      );
     }
 
     setLoading(false);
   };
 
+  /**
+   * Read an uploaded CSV and show the column mapping step
+   */
   const handleBatchUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Let the same file be picked again after a cancel
+    e.target.value = '';
     if (file) {
       Papa.parse<string[]>(file, {
         complete: (results: Papa.ParseResult<string[]>) => {
-          const batchInputs = results.data.flat().filter(Boolean);
-          handleSubmit({ preventDefault: () => {} } as React.FormEvent, batchInputs);
+          const rows = results.data.filter(row => row.some(cell => cell.trim()));
+          setResult(null);
+          setScoredCandidates([]);
+          setActiveJobId(null);
+          setPendingCsv({ fileName: file.name, rows });
         },
         header: false,
+        skipEmptyLines: true,
       });
     }
   };
 
-  const exportToCSV = (data: BatchOutput[]) => {
-    const csvData = data.map((out) => ({
-      Input: out.input,
-      Status: out.status,
-      Details: out.details || (out.suggestions ? `Found ${out.suggestions.length} suggestions` : ''),
-    }));
-    const csv = Papa.unparse(csvData);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    link.href = URL.createObjectURL(blob);
-    link.download = 'roblox_verifier_batch_results.csv';
-    link.click();
+  /**
+   * Start a server-side batch job for the mapped rows; it keeps running
+   * if this tab is closed and can be reopened from the jobs list
+   */
+  const startBatchJob = async (rows: MappedRow[], options: { profileDetails: boolean }) => {
+    if (!pendingCsv) return;
+    if (forensicMode && !caseId) {
+      alert('Forensic batches seal their evidence on a case; pick one in Forensic Mode first');
+      return;
+    }
+    setStartingJob(true);
+    try {
+      const response = await fetch('/api/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: pendingCsv.fileName,
+          rows,
+          includeBanned,
+          ...options,
+          // Each verified row gets a sealed report on the case
+          ...(forensicMode && { caseId }),
+        }),
+      });
+      if (!response.ok) throw await responseError(response);
+      const job = await response.json();
+      setPendingCsv(null);
+      setActiveJobId(job.id);
+    } catch (error) {
+      console.error('Failed to start batch job:', error);
+      setResult(
+        <div className="bg-red-100 p-4 rounded-md">
+          <h2 className="text-xl font-bold text-red-800">Batch upload failed</h2>
+          <p>{error instanceof Error ? error.message : 'Could not start the batch job'}</p>
+        </div>
+      );
+    }
+    setStartingJob(false);
   };
 
   const handleSelectCandidate = (username: string) => {
@@ -298,14 +385,15 @@ function VerifierTool() {
   return (
     <main className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-br from-blue-50 to-purple-50 p-4">
       <div className="w-full max-w-4xl">
-        {!isBatchMode && (
-          <ForensicMode
-            isEnabled={forensicMode}
-            onToggle={setForensicMode}
-            currentSnapshot={currentSnapshot}
-            query={currentQuery}
-          />
-        )}
+        {/* Shown for batches too, where it picks the case; reports come from the job */}
+        <ForensicMode
+          isEnabled={forensicMode}
+          onToggle={setForensicMode}
+          currentSnapshot={activeJobId ? null : currentSnapshot}
+          query={currentQuery}
+          caseId={caseId}
+          onCaseChange={setCaseId}
+        />
 
         <div className="rounded-lg bg-white p-8 shadow-xl">
           <h1 className="mb-6 text-center text-3xl font-bold text-gray-800">
@@ -348,8 +436,8 @@ function VerifierTool() {
                   i
                 </span>
                 <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block bg-gray-800 text-white text-xs rounded py-1 px-2 w-64 z-10">
-                  Upload a CSV file with one column of usernames, display names, or URLs. No headers
-                  needed.
+                  Upload a CSV with usernames, display names, IDs or profile URLs. You&apos;ll pick the
+                  identifier column, plus optional reference, keyword and expected group columns.
                 </div>
               </span>
             </label>
@@ -367,9 +455,16 @@ function VerifierTool() {
             </div>
           )}
 
+          {loading && rateLimitNotice && (
+            <div className="mt-4 rounded-md border-l-4 border-yellow-400 bg-yellow-50 p-3 text-sm text-yellow-800">
+              ⏳ Rate limited by Roblox, retrying &quot;{rateLimitNotice.input}&quot; in{' '}
+              {rateLimitNotice.retryInSeconds}s (attempt {rateLimitNotice.attempt} of {RATE_LIMIT_RETRIES})
+            </div>
+          )}
+
           {result && <div className="mt-6 rounded-md bg-gray-100 p-6 shadow-inner">{result}</div>}
 
-          {!isBatchMode && scoredCandidates.length > 0 && (
+          {!activeJobId && scoredCandidates.length > 0 && (
             <SmartSuggest
               candidates={scoredCandidates}
               query={originalDisplayNameQuery}
@@ -379,34 +474,55 @@ function VerifierTool() {
             />
           )}
 
-          {isBatchMode && batchResults.length > 0 && (
-            <div className="mt-6">
-              <h2 className="text-xl font-bold mb-4">Batch Results</h2>
-              <table className="w-full border-collapse border">
-                <thead>
-                  <tr className="bg-gray-200">
-                    <th className="p-3 text-left border-b">Input</th>
-                    <th className="p-3 text-left border-b">Status</th>
-                    <th className="p-3 text-left border-b">Details</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {batchResults.map((out, index) => (
-                    <tr key={index} className="hover:bg-gray-50">
-                      <td className="p-3 border-b">{out.input}</td>
-                      <td className="p-3 border-b">{out.status}</td>
-                      <td className="p-3 border-b">{out.details}</td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-              <button
-                onClick={() => exportToCSV(batchResults)}
-                className="mt-4 rounded-md bg-green-500 p-3 text-white font-medium hover:bg-green-600 transition"
-              >
-                📥 Export CSV
-              </button>
-            </div>
+          {pendingCsv && (
+            <CsvColumnMapper
+              key={`${pendingCsv.fileName}:${pendingCsv.rows.length}`}
+              fileName={pendingCsv.fileName}
+              rows={pendingCsv.rows}
+              onStart={startBatchJob}
+              onCancel={() => setPendingCsv(null)}
+              starting={startingJob}
+              forensicCaseId={forensicMode ? caseId : undefined}
+            />
+          )}
+
+          {activeJobId && (
+            <BatchJobProgress jobId={activeJobId} onClose={() => setActiveJobId(null)} />
+          )}
+
+          <Link
+            href="/cases"
+            className="mt-6 block w-full rounded-md border border-blue-300 p-3 text-center text-blue-700 font-medium hover:bg-blue-50 transition"
+          >
+            📁 Cases
+          </Link>
+
+          <Link
+            href="/jobs"
+            className="mt-6 block w-full rounded-md border border-green-300 p-3 text-center text-green-700 font-medium hover:bg-green-50 transition"
+          >
+            🗂️ Batch Jobs
+          </Link>
+
+          <Link
+            href="/watchlists"
+            className="mt-6 block w-full rounded-md border border-orange-300 p-3 text-center text-orange-700 font-medium hover:bg-orange-50 transition"
+          >
+            👁️ Watchlists
+            {openAlertCount > 0 && (
+              <span className="ml-2 rounded-full bg-orange-500 px-2 py-0.5 text-xs text-white">
+                {openAlertCount}
+              </span>
+            )}
+          </Link>
+
+          {session.user?.role === 'admin' && (
+            <Link
+              href="/audit"
+              className="mt-6 block w-full rounded-md border border-purple-300 p-3 text-center text-purple-700 font-medium hover:bg-purple-50 transition"
+            >
+              📋 Audit Logs
+            </Link>
           )}
 
           <button
@@ -0,0 +1,12 @@
+import ReportVerifier from '../components/ReportVerifier';
+
+// Public page: outside parties can verify reports without an account
+export default function VerifyPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-br from-blue-50 to-purple-50 p-4">
+      <div className="w-full max-w-2xl">
+        <ReportVerifier />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,12 @@
+// FILE: src/instrumentation.ts
+// Server startup hook - starts background jobs in the Node.js runtime
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startWatchScheduler } = await import('./app/lib/scheduler');
+    startWatchScheduler();
+
+    const { resumeInterruptedJobs } = await import('./app/lib/jobs');
+    resumeInterruptedJobs().catch(err => console.error('Batch job startup error:', err));
+  }
+}
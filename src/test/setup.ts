@@ -0,0 +1,8 @@
+// FILE: src/test/setup.ts
+// Tests - Isolate each test file's data directory (runs before the file's imports)
+
+import { mkdtempSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.VERIFIER_DATA_DIR = mkdtempSync(path.join(os.tmpdir(), 'verifier-test-'));